@@ -1,4 +1,5 @@
 import { useState, FormEvent } from 'react';
+import { DEVICE_PRESETS, type Device } from '@allscreenshots/sdk';
 
 type Status = 'idle' | 'loading' | 'success' | 'error';
 
@@ -7,15 +8,14 @@ interface ScreenshotResult {
   elapsed: number;
 }
 
-const DEVICES = [
-  { value: 'Desktop HD', label: 'Desktop HD' },
-  { value: 'iPhone 14', label: 'iPhone 14' },
-  { value: 'iPad', label: 'iPad' },
-];
+const DEVICES = Object.values(DEVICE_PRESETS).map((preset) => ({
+  value: preset.name,
+  label: `${preset.name} (${preset.width}×${preset.height})`,
+}));
 
 function App() {
   const [url, setUrl] = useState('https://github.com');
-  const [device, setDevice] = useState('Desktop HD');
+  const [device, setDevice] = useState<Device>('Desktop HD');
   const [fullPage, setFullPage] = useState(false);
   const [status, setStatus] = useState<Status>('idle');
   const [result, setResult] = useState<ScreenshotResult | null>(null);
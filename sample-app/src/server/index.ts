@@ -1,7 +1,7 @@
 import express from 'express';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import { AllscreenshotsClient, AllscreenshotsError } from '@allscreenshots/sdk';
+import { AllscreenshotsClient, AllscreenshotsError, type Device } from '@allscreenshots/sdk';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
@@ -26,7 +26,7 @@ try {
 
 interface ScreenshotRequestBody {
   url: string;
-  device: string;
+  device: Device;
   fullPage: boolean;
 }
 
@@ -6,14 +6,50 @@
  */
 
 import {
+  AbortError,
   AllscreenshotsError,
   AuthenticationError,
-  NetworkError,
+  ResponseValidationError,
   TimeoutError,
+  ValidationError,
   parseApiError,
   type ApiErrorResponse,
 } from './errors/index.js';
-import { withRetry, type RetryConfig, DEFAULT_RETRY_CONFIG } from './utils/retry.js';
+import { withRetry, parseRetryAfter, type RetryConfig, DEFAULT_RETRY_CONFIG } from './utils/retry.js';
+import { generateIdempotencyKey } from './utils/idempotency.js';
+import { ApiPromise } from './utils/api-promise.js';
+import { RateLimiter, type RateLimiterOptions } from './utils/rate-limiter.js';
+import { RequestQueue } from './utils/request-queue.js';
+import { CircuitBreaker, type CircuitBreakerOptions } from './utils/circuit-breaker.js';
+import { parseResponseMetadata, type ApiResult } from './utils/response.js';
+import { getEnv, hasBuffer } from './utils/runtime.js';
+import { toNetworkError } from './utils/network.js';
+import { pollUntil, type PollOptions } from './utils/poll.js';
+import { TERMINAL_JOB_STATUSES, assertJobCompleted } from './jobs/job-handle.js';
+import {
+  guardBody,
+  parseContentLength,
+  trackProgress,
+  type DownloadProgress,
+} from './utils/stream.js';
+import {
+  copyBinaryData,
+  defaultBinaryType,
+  toBinaryData,
+  toBytes,
+  type BinaryData,
+  type BinaryType,
+} from './utils/binary.js';
+import { ScreenshotCache, stableStringify, type CacheMode, type ScreenshotCacheOptions } from './utils/cache.js';
+import { RequestCoalescer } from './utils/coalescer.js';
+import { ApiKeyManager, type ApiKeyProvider } from './utils/api-key.js';
+import {
+  composeMiddleware,
+  type Middleware,
+  type QueryParams,
+  type RequestContext,
+  type ResponseContext,
+} from './utils/middleware.js';
 import type {
   ScreenshotRequest,
   AsyncJobCreatedResponse,
@@ -35,13 +71,42 @@ import type {
   UsageResponse,
   QuotaStatusResponse,
 } from './models/index.js';
+import {
+  validateAsyncJobCreatedResponse,
+  validateBulkJobSummary,
+  validateBulkResponse,
+  validateBulkStatusResponse,
+  validateComposeJobStatusResponse,
+  validateComposeJobSummaryResponse,
+  validateComposeResponse,
+  validateJobResponse,
+  validateLayoutPreviewResponse,
+  validateListOf,
+  validateQuotaStatusResponse,
+  validateScheduleHistoryResponse,
+  validateScheduleListResponse,
+  validateScheduleResponse,
+  validateUsageResponse,
+} from './validation/responses.js';
+import {
+  validateBulkRequest,
+  validateComposeRequest,
+  validateCreateScheduleRequest,
+  validateScreenshotRequest,
+  validateUpdateScheduleRequest,
+} from './validation/requests.js';
+import type { Validator } from './validation/schema.js';
 
 /**
  * Configuration options for the Allscreenshots client
  */
-export interface AllscreenshotsConfig {
-  /** API key for authentication */
-  apiKey?: string;
+export interface AllscreenshotsConfig<B extends BinaryType = BinaryType> {
+  /** API key, a sync/async function returning it (e.g. from a secrets manager), or a shared key manager */
+  apiKey?: string | ApiKeyProvider | ApiKeyManager;
+  /** How long a key returned by an `apiKey` provider is cached, in milliseconds (default: until it is rejected) */
+  apiKeyRefreshIntervalMs?: number;
+  /** Keys tried in order when the API rejects the primary key, e.g. during a rotation window */
+  fallbackApiKeys?: string[];
   /** Base URL for the API (default: https://api.allscreenshots.com) */
   baseUrl?: string;
   /** Request timeout in milliseconds (default: 60000) */
@@ -50,6 +115,160 @@ export interface AllscreenshotsConfig {
   retry?: Partial<RetryConfig>;
   /** Whether to automatically retry failed requests (default: true) */
   autoRetry?: boolean;
+  /** Custom fetch implementation used for every request (default: global fetch) */
+  fetch?: FetchFunction;
+  /** Middleware applied to every request attempt, the first entry being the outermost */
+  middleware?: Middleware[];
+  /** Automatically send an Idempotency-Key header with non-idempotent requests (default: true) */
+  idempotencyKeys?: boolean;
+  /** Only retry non-idempotent requests when they carry an idempotency key (default: false) */
+  retryRequiresIdempotencyKey?: boolean;
+  /** Client-side rate limiter, or options to create one; pass the same instance to share it between clients */
+  rateLimiter?: RateLimiter | RateLimiterOptions;
+  /** Maximum number of requests in flight at once; further requests wait in a priority queue */
+  maxConcurrency?: number;
+  /** Request queue shared with other clients, used instead of creating one from `maxConcurrency` */
+  requestQueue?: RequestQueue;
+  /** Circuit breaker, or options to create one; pass the same instance to share it between clients */
+  circuitBreaker?: CircuitBreaker | CircuitBreakerOptions;
+  /**
+   * Type returned for images and PDFs (default: 'buffer' where Buffer exists, otherwise 'uint8array')
+   *
+   * Without a `binaryType` results are typed as `Buffer`, so set it in runtimes without Buffer.
+   * Requesting 'buffer' there throws a TypeError.
+   */
+  binaryType?: B;
+  /** Screenshot cache, or options to create one; pass the same instance to share it between clients */
+  cache?: ScreenshotCache | ScreenshotCacheOptions;
+  /** Share in-flight identical calls instead of sending them again; `true` enables every supported method */
+  coalesce?: boolean | CoalesceConfig;
+  /** Headers sent with every request */
+  headers?: Record<string, string>;
+  /** Tags attached to every request, available to middleware for logging and usage attribution */
+  tags?: Record<string, string>;
+  /** Check request bodies against the documented constraints before sending (default: false) */
+  validateRequests?: boolean;
+  /** Check JSON responses against their models (default: 'off') */
+  responseValidation?: ResponseValidationMode;
+}
+
+/**
+ * How responses that do not match their model are handled
+ *
+ * - `off`: responses are not checked
+ * - `warn`: mismatches are logged with `console.warn` and the response is returned as is
+ * - `strict`: mismatches throw a `ResponseValidationError`
+ */
+export type ResponseValidationMode = 'off' | 'warn' | 'strict';
+
+/**
+ * Methods for which identical in-flight calls are coalesced
+ *
+ * Calls are identical when they target the same method and arguments (the same
+ * normalized `ScreenshotRequest`, or the same job ID). Joining callers share the
+ * per-call options (timeout, headers, retries) of the call that started the request,
+ * but each can abort its own wait.
+ */
+export interface CoalesceConfig {
+  /** Coalesce `screenshot()` calls (default: false) */
+  screenshot?: boolean;
+  /** Coalesce `getJob()` calls (default: false) */
+  getJob?: boolean;
+  /** Coalesce `getJobResult()` calls (default: false) */
+  getJobResult?: boolean;
+}
+
+/**
+ * Per-call options accepted by every client method
+ *
+ * @example
+ * ```typescript
+ * const controller = new AbortController();
+ * const image = await client.screenshot(
+ *   { url: 'https://example.com', fullPage: true },
+ *   { timeout: 90000, signal: controller.signal }
+ * );
+ * ```
+ */
+export interface RequestOptions {
+  /** Signal to cancel the request; an aborted call rejects with `AbortError` */
+  signal?: AbortSignal;
+  /** Timeout in milliseconds for each attempt, overriding the client timeout */
+  timeout?: number;
+  /** Additional headers to send with this request */
+  headers?: Record<string, string>;
+  /** Retry configuration overrides for this request */
+  retry?: Partial<RetryConfig>;
+  /** Whether to automatically retry this request, overriding the client setting */
+  autoRetry?: boolean;
+  /** Idempotency key for this call, reused across all retry attempts */
+  idempotencyKey?: string;
+  /** Queue priority when `maxConcurrency` is set; higher values start first (default: 0) */
+  priority?: number;
+  /** Tags for this call, merged over the client tags */
+  tags?: Record<string, string>;
+}
+
+/**
+ * Per-call options for `screenshot()`
+ */
+export interface ScreenshotOptions extends RequestOptions {
+  /** Cache behavior for this call when a cache is configured */
+  cache?: CacheMode;
+}
+
+/**
+ * Per-call options for streaming and file download methods
+ */
+export interface StreamOptions extends RequestOptions {
+  /** Called for every chunk of the response body received */
+  onProgress?: (progress: DownloadProgress) => void;
+}
+
+/**
+ * Options for `waitForJob()`
+ *
+ * Request options apply to every poll; `timeout` limits the whole wait rather than each poll.
+ */
+export interface WaitForJobOptions extends Omit<RequestOptions, 'timeout'>, PollOptions {
+  /** Called with the job status after every poll */
+  onProgress?: (job: JobResponse) => void;
+  /** Cancel the job on the server when waiting is aborted or times out (default: false) */
+  cancelOnAbort?: boolean;
+}
+
+/**
+ * Result of `screenshotAsyncAndWait()`
+ */
+export interface AsyncScreenshotResult<B extends BinaryType = 'buffer'> {
+  /** Result image */
+  image: BinaryData<B>;
+  /** Completed job */
+  job: JobResponse;
+  /** Content type of the image, e.g. `image/png` */
+  contentType?: string;
+  /** When the result expires on the server */
+  expiresAt?: string;
+}
+
+/**
+ * Fetch-compatible function used to perform HTTP requests
+ */
+export type FetchFunction = typeof fetch;
+
+/**
+ * Internal description of an API call
+ */
+interface RequestSpec {
+  body?: unknown;
+  query?: QueryParams;
+  returnBinary?: boolean;
+  stream?: boolean;
+  idempotent?: boolean;
+  /** Checks the request body before sending when request validation is enabled */
+  validateBody?: Validator;
+  /** Checks the response body according to the response validation mode */
+  validate?: Validator;
 }
 
 /**
@@ -59,6 +278,8 @@ const DEFAULT_CONFIG = {
   baseUrl: 'https://api.allscreenshots.com',
   timeout: 60000,
   autoRetry: true,
+  idempotencyKeys: true,
+  retryRequiresIdempotencyKey: false,
 };
 
 /**
@@ -72,17 +293,33 @@ const DEFAULT_CONFIG = {
  *   .build();
  * ```
  */
-export class AllscreenshotsClientBuilder {
+export class AllscreenshotsClientBuilder<B extends BinaryType = 'buffer'> {
   private config: AllscreenshotsConfig = {};
 
   /**
    * Set the API key for authentication
    */
-  withApiKey(apiKey: string): this {
+  withApiKey(apiKey: string | ApiKeyProvider | ApiKeyManager): this {
     this.config.apiKey = apiKey;
     return this;
   }
 
+  /**
+   * Set how long a key returned by an API key provider is cached
+   */
+  withApiKeyRefreshInterval(refreshIntervalMs: number): this {
+    this.config.apiKeyRefreshIntervalMs = refreshIntervalMs;
+    return this;
+  }
+
+  /**
+   * Set keys to fall back to when the API rejects the primary key
+   */
+  withFallbackApiKeys(...keys: string[]): this {
+    this.config.fallbackApiKeys = keys;
+    return this;
+  }
+
   /**
    * Set the base URL for API requests
    */
@@ -115,11 +352,123 @@ export class AllscreenshotsClientBuilder {
     return this;
   }
 
+  /**
+   * Enable or disable automatic idempotency keys for non-idempotent requests
+   */
+  withIdempotencyKeys(enabled: boolean): this {
+    this.config.idempotencyKeys = enabled;
+    return this;
+  }
+
+  /**
+   * Only retry non-idempotent requests when they carry an idempotency key
+   */
+  withRetryRequiresIdempotencyKey(enabled: boolean): this {
+    this.config.retryRequiresIdempotencyKey = enabled;
+    return this;
+  }
+
+  /**
+   * Use a custom fetch implementation (e.g. an undici agent, a proxy-aware fetch or a test fake)
+   */
+  withFetch(fetch: FetchFunction): this {
+    this.config.fetch = fetch;
+    return this;
+  }
+
+  /**
+   * Queue requests through a client-side rate limiter
+   */
+  withRateLimiter(rateLimiter: RateLimiter | RateLimiterOptions): this {
+    this.config.rateLimiter = rateLimiter;
+    return this;
+  }
+
+  /**
+   * Limit the number of requests in flight at once
+   */
+  withMaxConcurrency(maxConcurrency: number): this {
+    this.config.maxConcurrency = maxConcurrency;
+    return this;
+  }
+
+  /**
+   * Fail fast through a circuit breaker while the API is unavailable
+   */
+  withCircuitBreaker(circuitBreaker: CircuitBreaker | CircuitBreakerOptions): this {
+    this.config.circuitBreaker = circuitBreaker;
+    return this;
+  }
+
+  /**
+   * Serve repeated screenshot requests from a cache
+   */
+  withCache(cache: ScreenshotCache | ScreenshotCacheOptions): this {
+    this.config.cache = cache;
+    return this;
+  }
+
+  /**
+   * Share in-flight identical calls instead of sending them again
+   */
+  withCoalescing(coalesce: boolean | CoalesceConfig = true): this {
+    this.config.coalesce = coalesce;
+    return this;
+  }
+
+  /**
+   * Set the type returned for images and PDFs
+   */
+  withBinaryType<T extends BinaryType>(binaryType: T): AllscreenshotsClientBuilder<T> {
+    this.config.binaryType = binaryType;
+    return this as unknown as AllscreenshotsClientBuilder<T>;
+  }
+
+  /**
+   * Set headers sent with every request
+   */
+  withHeaders(headers: Record<string, string>): this {
+    this.config.headers = { ...this.config.headers, ...headers };
+    return this;
+  }
+
+  /**
+   * Set tags attached to every request
+   */
+  withTags(tags: Record<string, string>): this {
+    this.config.tags = { ...this.config.tags, ...tags };
+    return this;
+  }
+
+  /**
+   * Check request bodies against the documented constraints before sending
+   */
+  withRequestValidation(enabled: boolean = true): this {
+    this.config.validateRequests = enabled;
+    return this;
+  }
+
+  /**
+   * Set how responses that do not match their model are handled
+   */
+  withResponseValidation(mode: ResponseValidationMode): this {
+    this.config.responseValidation = mode;
+    return this;
+  }
+
+  /**
+   * Append middleware to the request pipeline
+   */
+  withMiddleware(...middleware: Middleware[]): this {
+    this.config.middleware = [...(this.config.middleware ?? []), ...middleware];
+    return this;
+  }
+
   /**
    * Build and return the configured client
    */
-  build(): AllscreenshotsClient {
-    return new AllscreenshotsClient(this.config);
+  build(): AllscreenshotsClient<B> {
+    return new AllscreenshotsClient<B>(this.config as AllscreenshotsConfig<B>);
   }
 }
 
@@ -144,27 +493,81 @@ export class AllscreenshotsClientBuilder {
  * });
  * ```
  */
-export class AllscreenshotsClient {
-  private readonly apiKey: string;
+export class AllscreenshotsClient<B extends BinaryType = 'buffer'> {
+  private readonly config: AllscreenshotsConfig<B>;
+  private readonly apiKeys: ApiKeyManager;
   private readonly baseUrl: string;
   private readonly timeout: number;
   private readonly retryConfig: RetryConfig;
   private readonly autoRetry: boolean;
+  private readonly fetchImpl?: FetchFunction;
+  private readonly middleware: Middleware[];
+  private readonly idempotencyKeys: boolean;
+  private readonly retryRequiresIdempotencyKey: boolean;
+  private readonly rateLimiter?: RateLimiter;
+  private readonly requestQueue?: RequestQueue;
+  private readonly circuitBreaker?: CircuitBreaker;
+  private readonly binaryType: BinaryType;
+  private readonly screenshotCache?: ScreenshotCache;
+  private readonly coalesceConfig: Required<CoalesceConfig>;
+  private readonly coalescer = new RequestCoalescer();
+  private readonly headers: Record<string, string>;
+  private readonly tags: Record<string, string>;
+  private readonly validateRequests: boolean;
+  private readonly responseValidation: ResponseValidationMode;
+
+  constructor(config: AllscreenshotsConfig<B> = {}) {
+    this.config = config;
 
-  constructor(config: AllscreenshotsConfig = {}) {
     // Try to get API key from config or environment
-    this.apiKey = config.apiKey || process.env.ALLSCREENSHOTS_API_KEY || '';
+    const apiKey = config.apiKey || getEnv('ALLSCREENSHOTS_API_KEY') || '';
 
-    if (!this.apiKey) {
+    if (!apiKey) {
       throw new AuthenticationError(
         'API key is required. Provide it via config or set ALLSCREENSHOTS_API_KEY environment variable.'
       );
     }
+    this.apiKeys = apiKey instanceof ApiKeyManager ? apiKey : new ApiKeyManager(apiKey, {
+      refreshIntervalMs: config.apiKeyRefreshIntervalMs,
+      fallbackKeys: config.fallbackApiKeys,
+    });
 
     this.baseUrl = config.baseUrl || DEFAULT_CONFIG.baseUrl;
     this.timeout = config.timeout ?? DEFAULT_CONFIG.timeout;
     this.autoRetry = config.autoRetry ?? DEFAULT_CONFIG.autoRetry;
     this.retryConfig = { ...DEFAULT_RETRY_CONFIG, ...config.retry };
+    this.fetchImpl = config.fetch;
+    this.middleware = [...(config.middleware ?? [])];
+    this.idempotencyKeys = config.idempotencyKeys ?? DEFAULT_CONFIG.idempotencyKeys;
+    this.retryRequiresIdempotencyKey =
+      config.retryRequiresIdempotencyKey ?? DEFAULT_CONFIG.retryRequiresIdempotencyKey;
+    this.rateLimiter = config.rateLimiter instanceof RateLimiter || config.rateLimiter === undefined
+      ? config.rateLimiter
+      : new RateLimiter(config.rateLimiter);
+    this.requestQueue = config.requestQueue ?? (config.maxConcurrency !== undefined
+      ? new RequestQueue(config.maxConcurrency)
+      : undefined);
+    this.circuitBreaker = config.circuitBreaker instanceof CircuitBreaker || config.circuitBreaker === undefined
+      ? config.circuitBreaker
+      : new CircuitBreaker(config.circuitBreaker);
+    if (config.binaryType === 'buffer' && !hasBuffer()) {
+      throw new TypeError("binaryType 'buffer' needs Buffer, which this runtime lacks; use 'uint8array' instead");
+    }
+    this.binaryType = config.binaryType ?? defaultBinaryType();
+    this.screenshotCache = config.cache instanceof ScreenshotCache || config.cache === undefined
+      ? config.cache
+      : new ScreenshotCache(config.cache);
+    const coalesceAll = config.coalesce === true;
+    const coalesce = typeof config.coalesce === 'object' ? config.coalesce : {};
+    this.coalesceConfig = {
+      screenshot: coalesce.screenshot ?? coalesceAll,
+      getJob: coalesce.getJob ?? coalesceAll,
+      getJobResult: coalesce.getJobResult ?? coalesceAll,
+    };
+    this.headers = { ...config.headers };
+    this.tags = { ...config.tags };
+    this.validateRequests = config.validateRequests ?? false;
+    this.responseValidation = config.responseValidation ?? 'off';
   }
 
   /**
@@ -174,19 +577,137 @@ export class AllscreenshotsClient {
     return new AllscreenshotsClientBuilder();
   }
 
+  /**
+   * Create a child client with some options overridden
+   *
+   * The child shares the API key manager, rate limiter, request queue, circuit breaker
+   * and cache of this client unless the corresponding options are overridden. Headers
+   * and tags are merged with those of this client; all other options replace them.
+   * In-flight coalescing is not shared, so children never receive each other's results.
+   *
+   * A child given its own `apiKey` does not inherit `fallbackApiKeys` or
+   * `apiKeyRefreshIntervalMs`, so a rejected key never falls back to a key of this client.
+   * A child given its own `apiKey` or `baseUrl` does not share the cache either, so captures
+   * of one tenant or environment are never served to another; pass `cache` to share one anyway.
+   *
+   * @param options - Options to override
+   * @returns New client using the merged configuration
+   * @throws TypeError if `fallbackApiKeys` or `apiKeyRefreshIntervalMs` are overridden without
+   * an `apiKey` while this client was configured with an `ApiKeyManager`
+   *
+   * @example
+   * ```typescript
+   * const tenantClient = client.withOptions({
+   *   apiKey: tenant.apiKey,
+   *   timeout: 30000,
+   *   headers: { 'X-Tenant': tenant.id },
+   *   tags: { tenant: tenant.id },
+   * });
+   * ```
+   */
+  withOptions(options: Partial<AllscreenshotsConfig<B>>): AllscreenshotsClient<B> {
+    const overridesKey = options.apiKey !== undefined
+      || options.apiKeyRefreshIntervalMs !== undefined
+      || options.fallbackApiKeys !== undefined;
+    if (overridesKey && options.apiKey === undefined && this.config.apiKey instanceof ApiKeyManager) {
+      throw new TypeError(
+        'Cannot override fallbackApiKeys or apiKeyRefreshIntervalMs of an ApiKeyManager; pass an apiKey as well'
+      );
+    }
+
+    return new AllscreenshotsClient<B>({
+      ...this.config,
+      apiKey: overridesKey ? this.config.apiKey : this.apiKeys,
+      // The key settings of this client belong to its own key
+      ...(options.apiKey !== undefined && { apiKeyRefreshIntervalMs: undefined, fallbackApiKeys: undefined }),
+      rateLimiter: this.rateLimiter,
+      requestQueue: options.maxConcurrency !== undefined ? undefined : this.requestQueue,
+      circuitBreaker: this.circuitBreaker,
+      // Cache keys only cover the request, so another account or environment needs its own cache
+      cache: options.apiKey !== undefined || options.baseUrl !== undefined ? undefined : this.screenshotCache,
+      ...options,
+      headers: { ...this.headers, ...options.headers },
+      tags: { ...this.tags, ...options.tags },
+    });
+  }
+
+  /**
+   * Request queue used when `maxConcurrency` is configured
+   *
+   * @example
+   * ```typescript
+   * console.log(client.queue?.stats); // { pending, active, completed, failed }
+   * await client.queue?.onIdle();
+   * ```
+   */
+  get queue(): RequestQueue | undefined {
+    return this.requestQueue;
+  }
+
+  /**
+   * Screenshot cache used when `cache` is configured
+   *
+   * @example
+   * ```typescript
+   * console.log(client.cache?.stats); // { hits, misses, hitRate }
+   * ```
+   */
+  get cache(): ScreenshotCache | undefined {
+    return this.screenshotCache;
+  }
+
   /**
    * Make an HTTP request to the API
    */
-  private async request<T>(
+  private request<T>(
+    method: string,
+    path: string,
+    options: RequestSpec = {},
+    requestOptions: RequestOptions = {}
+  ): ApiPromise<T> {
+    return new ApiPromise(this.performRequest<T>(method, path, options, requestOptions));
+  }
+
+  /**
+   * Make an HTTP request to the API and keep its response metadata
+   *
+   * Every attempt (including retries) runs through the middleware chain. POST requests
+   * are treated as non-idempotent unless flagged otherwise and get a single
+   * Idempotency-Key shared by all of their attempts.
+   */
+  private async performRequest<T>(
     method: string,
     path: string,
-    options: {
-      body?: unknown;
-      query?: Record<string, string | number | boolean | undefined>;
-      returnBinary?: boolean;
-    } = {}
-  ): Promise<T> {
-    const execute = async (): Promise<T> => {
+    options: RequestSpec,
+    requestOptions: RequestOptions
+  ): Promise<ApiResult<T>> {
+    if (this.validateRequests && options.validateBody) {
+      const issues = options.validateBody(options.body);
+      if (issues.length > 0) {
+        throw new ValidationError(
+          `Invalid request: ${issues.map((issue) => `${issue.path || '(body)'}: ${issue.message}`).join('; ')}`,
+          Object.fromEntries(issues.map((issue) => [issue.path, issue.message]).reverse())
+        );
+      }
+    }
+
+    const send = composeMiddleware(
+      this.middleware,
+      (context) => this.dispatch(context, requestOptions.priority)
+    );
+    const { signal } = requestOptions;
+
+    const idempotent = options.idempotent ?? method !== 'POST';
+    const idempotencyKey = requestOptions.idempotencyKey
+      ?? (!idempotent && this.idempotencyKeys ? generateIdempotencyKey() : undefined);
+    const retryAllowed = idempotent || idempotencyKey !== undefined || !this.retryRequiresIdempotencyKey;
+    let apiKey = await this.apiKeys.get();
+
+    const attemptOnce = async (attempt: number): Promise<ApiResult<T>> => {
+      if (signal?.aborted) {
+        throw new AbortError();
+      }
+
       // Build URL with query parameters
       const url = new URL(`${this.baseUrl}${path}`);
       if (options.query) {
@@ -197,90 +718,283 @@ export class AllscreenshotsClient {
         }
       }
 
-      // Create abort controller for timeout
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+      const response = await send({
+        method,
+        path,
+        query: options.query,
+        body: options.body,
+        url: url.toString(),
+        headers: {
+          'X-API-Key': apiKey,
+          'Content-Type': 'application/json',
+          'Accept': options.returnBinary ? 'image/*,application/pdf' : 'application/json',
+          ...(idempotencyKey !== undefined && { 'Idempotency-Key': idempotencyKey }),
+          ...this.headers,
+          ...requestOptions.headers,
+        },
+        binary: options.returnBinary ?? false,
+        stream: options.stream,
+        attempt,
+        timeout: requestOptions.timeout ?? this.timeout,
+        signal,
+        tags: { ...this.tags, ...requestOptions.tags },
+      });
 
-      try {
-        const response = await fetch(url.toString(), {
-          method,
-          headers: {
-            'X-API-Key': this.apiKey,
-            'Content-Type': 'application/json',
-            'Accept': options.returnBinary ? 'image/*,application/pdf' : 'application/json',
-          },
-          body: options.body ? JSON.stringify(options.body) : undefined,
-          signal: controller.signal,
-        });
+      const metadata = parseResponseMetadata(response.status, response.headers, attempt);
 
-        clearTimeout(timeoutId);
-
-        // Handle binary responses
-        if (options.returnBinary) {
-          if (!response.ok) {
-            const errorBody = await response.text().catch(() => null);
-            let parsed: ApiErrorResponse | null = null;
-            try {
-              parsed = errorBody ? JSON.parse(errorBody) : null;
-            } catch {
-              // Ignore parse errors
-            }
-            const retryAfter = response.headers.get('Retry-After');
-            throw parseApiError(
-              response.status,
-              parsed || errorBody,
-              retryAfter ? parseInt(retryAfter, 10) : undefined
-            );
-          }
-          const buffer = await response.arrayBuffer();
-          return Buffer.from(buffer) as T;
+      if (response.status < 200 || response.status >= 300) {
+        const error = parseApiError(
+          response.status,
+          response.body as ApiErrorResponse | string | null,
+          parseRetryAfter(response.headers.get('Retry-After'))
+        );
+        error.response = metadata;
+        throw error;
+      }
+
+      return { data: response.body as T, response: metadata };
+    };
+
+    const execute = (attempt: number): Promise<ApiResult<T>> => this.circuitBreaker
+      ? this.circuitBreaker.execute(() => attemptOnce(attempt))
+      : attemptOnce(attempt);
+
+    const run = (): Promise<ApiResult<T>> => requestOptions.autoRetry ?? (this.autoRetry && retryAllowed)
+      ? withRetry(execute, { ...this.retryConfig, ...requestOptions.retry }, signal)
+      : execute(1);
+
+    // When the API rejects the key (401), retry with a refreshed or fallback key
+    for (let keysTried = 1; ; keysTried++) {
+      try {
+        const result = await run();
+        if (options.validate) {
+          this.validateResponse(method, path, options.validate, result);
+        }
+        return result;
+      } catch (error) {
+        if (!(error instanceof AuthenticationError) || error.response?.status !== 401) {
+          throw error;
         }
+        const nextKey = keysTried > this.apiKeys.size ? undefined : await this.apiKeys.rotate(apiKey);
+        if (nextKey === undefined) {
+          // Every key failed; the next request starts over with the primary key
+          this.apiKeys.reset();
+          throw error;
+        }
+        apiKey = nextKey;
+      }
+    }
+  }
 
-        // Handle JSON responses
-        const text = await response.text();
-        let body: T | ApiErrorResponse | null = null;
-        if (text) {
+  /**
+   * Check a response body against its model, according to the response validation mode
+   */
+  private validateResponse(method: string, path: string, validate: Validator, result: ApiResult<unknown>): void {
+    if (this.responseValidation === 'off') {
+      return;
+    }
+    const issues = validate(result.data);
+    if (issues.length === 0) {
+      return;
+    }
+
+    const details = issues.map((issue) => `${issue.path || '(body)'}: ${issue.message}`).join('; ');
+    const message = `Unexpected response from ${method} ${path}: ${details}`;
+    if (this.responseValidation === 'strict') {
+      const error = new ResponseValidationError(message, issues);
+      error.response = result.response;
+      throw error;
+    }
+    console.warn(`[allscreenshots] ${message}`);
+  }
+
+  /**
+   * Run a single HTTP call through the request queue, if any (innermost handler of the middleware chain)
+   */
+  private dispatch(context: RequestContext, priority?: number): Promise<ResponseContext> {
+    if (this.requestQueue) {
+      return this.requestQueue.add(() => this.send(context), { priority, signal: context.signal });
+    }
+    return this.send(context);
+  }
+
+  /**
+   * Perform a single HTTP call and parse the response body
+   */
+  private async send(context: RequestContext): Promise<ResponseContext> {
+    // Wait for the rate limiter before starting the timeout, queueing is not part of the request
+    if (this.rateLimiter) {
+      await this.rateLimiter.acquire(context.signal);
+    }
+    if (context.signal?.aborted) {
+      throw new AbortError();
+    }
+
+    // Create abort controller for timeout, linked to the caller's signal
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), context.timeout);
+    const onAbort = () => controller.abort();
+    context.signal?.addEventListener('abort', onAbort, { once: true });
+    let received = false;
+
+    // Resolve the global fetch lazily so it can still be replaced after construction
+    const fetchImpl = this.fetchImpl ?? globalThis.fetch;
+
+    try {
+      const response = await fetchImpl(context.url, {
+        method: context.method,
+        headers: context.headers,
+        body: context.body ? JSON.stringify(context.body) : undefined,
+        signal: controller.signal,
+      });
+      received = true;
+
+      if (this.rateLimiter) {
+        const { rateLimit } = parseResponseMetadata(response.status, response.headers, context.attempt);
+        this.rateLimiter.update({
+          remaining: rateLimit.remaining,
+          reset: rateLimit.reset,
+          retryAfter: parseRetryAfter(response.headers.get('Retry-After')),
+        });
+      }
+
+      // Handle binary responses
+      if (context.binary) {
+        if (!response.ok) {
+          const errorBody = await response.text().catch(() => null);
+          let parsed: ApiErrorResponse | null = null;
           try {
-            body = JSON.parse(text);
+            parsed = errorBody ? JSON.parse(errorBody) : null;
           } catch {
-            // Ignore parse errors for empty responses
+            // Ignore parse errors
           }
+          return { status: response.status, headers: response.headers, body: parsed || errorBody };
         }
+        if (context.stream) {
+          const body = response.body ?? new ReadableStream<Uint8Array>({ start: (stream) => stream.close() });
+          return {
+            status: response.status,
+            headers: response.headers,
+            // The timeout below ends with the headers; the guard times out a stalled body instead
+            body: guardBody(body, { idleTimeout: context.timeout, signal: context.signal }),
+          };
+        }
+        const data = await response.arrayBuffer();
+        const contentType = response.headers.get('Content-Type') ?? undefined;
+        return {
+          status: response.status,
+          headers: response.headers,
+          body: toBinaryData(data, this.binaryType, contentType),
+        };
+      }
 
-        if (!response.ok) {
-          const retryAfter = response.headers.get('Retry-After');
-          throw parseApiError(
-            response.status,
-            body as ApiErrorResponse,
-            retryAfter ? parseInt(retryAfter, 10) : undefined
-          );
+      // Handle JSON responses
+      const text = await response.text();
+      let body: unknown = null;
+      if (text) {
+        try {
+          body = JSON.parse(text);
+        } catch {
+          // Ignore parse errors for empty responses
         }
+      }
 
-        return body as T;
-      } catch (error) {
-        clearTimeout(timeoutId);
+      return { status: response.status, headers: response.headers, body };
+    } catch (error) {
+      if (error instanceof AllscreenshotsError) {
+        throw error;
+      }
 
-        if (error instanceof AllscreenshotsError) {
-          throw error;
-        }
+      if (context.signal?.aborted) {
+        throw new AbortError();
+      }
 
-        if (error instanceof Error) {
-          if (error.name === 'AbortError') {
-            throw new TimeoutError(`Request timed out after ${this.timeout}ms`);
-          }
-          if (error.message.includes('fetch')) {
-            throw new NetworkError(`Network error: ${error.message}`);
-          }
-        }
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new TimeoutError(`Request timed out after ${context.timeout}ms`);
+      }
+
+      throw toNetworkError(error, received ? 'body' : 'request');
+    } finally {
+      clearTimeout(timeoutId);
+      context.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * Run a call, joining an identical one already in flight when coalescing is enabled for the method
+   */
+  private coalesce<T>(
+    method: keyof CoalesceConfig,
+    key: string,
+    options: RequestOptions,
+    call: (options: RequestOptions) => ApiPromise<T>,
+    share?: (data: T) => T
+  ): ApiPromise<T> {
+    if (!this.coalesceConfig[method]) {
+      return call(options);
+    }
 
-        throw new NetworkError('Unknown network error occurred');
+    const { signal, ...sharedOptions } = options;
+    return new ApiPromise(this.coalescer.run(
+      `${method} ${key}`,
+      (sharedSignal) => call({ ...sharedOptions, signal: sharedSignal }).withResponse(),
+      {
+        signal,
+        share: share && ((result) => ({ ...result, data: share(result.data) })),
       }
-    };
+    ));
+  }
 
-    if (this.autoRetry) {
-      return withRetry(execute, this.retryConfig);
+  /**
+   * Serve a screenshot from the cache, or capture it and store the result
+   */
+  private async cachedCapture(
+    cache: ScreenshotCache,
+    request: ScreenshotRequest,
+    mode: CacheMode | undefined,
+    signal: AbortSignal | undefined,
+    capture: () => Promise<ApiResult<BinaryData<B>>>
+  ): Promise<ApiResult<BinaryData<B>>> {
+    if (mode !== 'refresh') {
+      const entry = await cache.get(request);
+      if (signal?.aborted) {
+        throw new AbortError();
+      }
+      if (entry) {
+        const headers = new Headers(entry.contentType ? { 'Content-Type': entry.contentType } : {});
+        return {
+          // Copy so that callers cannot modify the cached bytes
+          data: toBinaryData(entry.data.slice().buffer, this.binaryType, entry.contentType) as BinaryData<B>,
+          response: { ...parseResponseMetadata(200, headers, 0), cached: true },
+        };
+      }
     }
-    return execute();
+
+    const result = await capture();
+    await cache.set(request, await toBytes(result.data), result.response.contentType);
+    return result;
+  }
+
+  /**
+   * Perform a binary request and return the response body as a stream
+   */
+  private requestStream(
+    method: string,
+    path: string,
+    spec: RequestSpec,
+    options: StreamOptions = {}
+  ): ApiPromise<ReadableStream<Uint8Array>> {
+    const { onProgress, ...requestOptions } = options;
+    const result = this.request<ReadableStream<Uint8Array>>(method, path, {
+      ...spec,
+      returnBinary: true,
+      stream: true,
+    }, requestOptions).withResponse();
+
+    return new ApiPromise(result.then(({ data, response }) => ({
+      data: onProgress ? trackProgress(data, onProgress, parseContentLength(response.headers)) : data,
+      response,
+    })));
   }
 
   // ============================================
@@ -291,7 +1005,8 @@ export class AllscreenshotsClient {
    * Take a screenshot synchronously
    *
    * @param request - Screenshot configuration
-   * @returns Binary image data as a Buffer
+   * @param options - Per-call request options and cache mode
+   * @returns Binary image data (a Buffer unless `binaryType` is configured)
    *
    * @example
    * ```typescript
@@ -303,19 +1018,66 @@ export class AllscreenshotsClient {
    *
    * // Save to file
    * fs.writeFileSync('screenshot.png', imageBuffer);
+   *
+   * // Always capture a fresh image, even with a cache configured
+   * const fresh = await client.screenshot({ url: 'https://github.com' }, { cache: 'bypass' });
    * ```
    */
-  async screenshot(request: ScreenshotRequest): Promise<Buffer> {
-    return this.request<Buffer>('POST', '/v1/screenshots', {
-      body: request,
-      returnBinary: true,
-    });
+  screenshot(request: ScreenshotRequest, options: ScreenshotOptions = {}): ApiPromise<BinaryData<B>> {
+    const { cache: mode, ...requestOptions } = options;
+    const capture = () => this.coalesce(
+      'screenshot',
+      stableStringify(request),
+      requestOptions,
+      (callOptions) => this.request<BinaryData<B>>('POST', '/v1/screenshots', {
+        body: request,
+        validateBody: validateScreenshotRequest,
+        returnBinary: true,
+      }, callOptions),
+      copyBinaryData
+    );
+
+    if (!this.screenshotCache || mode === 'bypass') {
+      return capture();
+    }
+    return new ApiPromise(this.cachedCapture(
+      this.screenshotCache,
+      request,
+      mode,
+      requestOptions.signal,
+      () => capture().withResponse()
+    ));
+  }
+
+  /**
+   * Take a screenshot synchronously and stream the image instead of buffering it
+   *
+   * Retries only apply until the response headers arrive; the body is read once. `timeout`
+   * limits the wait for the headers and then each wait for the next chunk of the body.
+   * Use `toNodeReadable()` from `@allscreenshots/sdk/node` to convert the result into a Node.js Readable.
+   *
+   * @param request - Screenshot configuration
+   * @param options - Per-call request options and progress callback
+   * @returns Web ReadableStream of the image data
+   *
+   * @example
+   * ```typescript
+   * const stream = await client.screenshotStream(
+   *   { url: 'https://github.com', fullPage: true },
+   *   { onProgress: ({ bytesReceived, totalBytes }) => console.log(bytesReceived, totalBytes) }
+   * );
+   * return new Response(stream, { headers: { 'Content-Type': 'image/png' } });
+   * ```
+   */
+  screenshotStream(request: ScreenshotRequest, options?: StreamOptions): ApiPromise<ReadableStream<Uint8Array>> {
+    return this.requestStream('POST', '/v1/screenshots', { body: request, validateBody: validateScreenshotRequest }, options);
   }
 
   /**
    * Take a screenshot asynchronously
    *
    * @param request - Screenshot configuration
+   * @param options - Per-call request options
    * @returns Job creation response with status URL
    *
    * @example
@@ -327,51 +1089,165 @@ export class AllscreenshotsClient {
    * console.log(`Job created: ${job.id}`);
    * ```
    */
-  async screenshotAsync(request: ScreenshotRequest): Promise<AsyncJobCreatedResponse> {
+  screenshotAsync(request: ScreenshotRequest, options?: RequestOptions): ApiPromise<AsyncJobCreatedResponse> {
     return this.request<AsyncJobCreatedResponse>('POST', '/v1/screenshots/async', {
+      validate: validateAsyncJobCreatedResponse,
       body: request,
-    });
+      validateBody: validateScreenshotRequest,
+    }, options);
   }
 
   /**
    * List all screenshot jobs
    *
+   * @param options - Per-call request options
    * @returns Array of job responses
    */
-  async listJobs(): Promise<JobResponse[]> {
-    return this.request<JobResponse[]>('GET', '/v1/screenshots/jobs');
+  listJobs(options?: RequestOptions): ApiPromise<JobResponse[]> {
+    return this.request<JobResponse[]>('GET', '/v1/screenshots/jobs', { validate: validateListOf(validateJobResponse) }, options);
   }
 
   /**
    * Get the status of a screenshot job
    *
    * @param id - Job identifier
+   * @param options - Per-call request options
    * @returns Job status details
    */
-  async getJob(id: string): Promise<JobResponse> {
-    return this.request<JobResponse>('GET', `/v1/screenshots/jobs/${encodeURIComponent(id)}`);
+  getJob(id: string, options?: RequestOptions): ApiPromise<JobResponse> {
+    return this.coalesce('getJob', id, options ?? {}, (callOptions) =>
+      this.request<JobResponse>('GET', `/v1/screenshots/jobs/${encodeURIComponent(id)}`, { validate: validateJobResponse }, callOptions)
+    );
   }
 
   /**
    * Get the result image of a completed job
    *
    * @param id - Job identifier
+   * @param options - Per-call request options
    * @returns Binary image data
    */
-  async getJobResult(id: string): Promise<Buffer> {
-    return this.request<Buffer>('GET', `/v1/screenshots/jobs/${encodeURIComponent(id)}/result`, {
-      returnBinary: true,
-    });
+  getJobResult(id: string, options?: RequestOptions): ApiPromise<BinaryData<B>> {
+    return this.coalesce(
+      'getJobResult',
+      id,
+      options ?? {},
+      (callOptions) => this.request<BinaryData<B>>('GET', `/v1/screenshots/jobs/${encodeURIComponent(id)}/result`, {
+        returnBinary: true,
+      }, callOptions),
+      copyBinaryData
+    );
+  }
+
+  /**
+   * Stream the result image of a completed job instead of buffering it
+   *
+   * @param id - Job identifier
+   * @param options - Per-call request options and progress callback
+   * @returns Web ReadableStream of the image data
+   */
+  getJobResultStream(id: string, options?: StreamOptions): ApiPromise<ReadableStream<Uint8Array>> {
+    return this.requestStream('GET', `/v1/screenshots/jobs/${encodeURIComponent(id)}/result`, {}, options);
   }
 
   /**
    * Cancel a screenshot job
    *
    * @param id - Job identifier
+   * @param options - Per-call request options
    * @returns Updated job status
    */
-  async cancelJob(id: string): Promise<JobResponse> {
-    return this.request<JobResponse>('POST', `/v1/screenshots/jobs/${encodeURIComponent(id)}/cancel`);
+  cancelJob(id: string, options?: RequestOptions): ApiPromise<JobResponse> {
+    return this.request<JobResponse>('POST', `/v1/screenshots/jobs/${encodeURIComponent(id)}/cancel`, {
+      validate: validateJobResponse,
+      idempotent: true,
+    }, options);
+  }
+
+  /**
+   * Poll a screenshot job until it completes
+   *
+   * Polls start at `pollInterval` and back off by `backoff` up to `maxPollInterval`.
+   *
+   * @param id - Job identifier
+   * @param options - Polling, timeout and per-poll request options
+   * @returns Final job status
+   * @throws JobFailedError if the job fails
+   * @throws JobCancelledError if the job is cancelled
+   * @throws TimeoutError if the job does not finish within `timeout`
+   *
+   * @example
+   * ```typescript
+   * const { id } = await client.screenshotAsync({ url: 'https://github.com', fullPage: true });
+   * const job = await client.waitForJob(id, {
+   *   timeout: 120000,
+   *   onProgress: (job) => console.log(job.status),
+   * });
+   * const image = await client.getJobResult(job.id);
+   * ```
+   */
+  waitForJob(id: string, options: WaitForJobOptions = {}): ApiPromise<JobResponse> {
+    const { pollInterval, backoff, maxPollInterval, timeout, signal, onProgress, cancelOnAbort, ...requestOptions } = options;
+
+    return new ApiPromise(pollUntil(
+      (pollSignal) => this.getJob(id, { ...requestOptions, signal: pollSignal }).withResponse(),
+      ({ data }) => TERMINAL_JOB_STATUSES.includes(data.status),
+      { pollInterval, backoff, maxPollInterval, timeout, signal },
+      {
+        onPoll: ({ data }) => onProgress?.(data),
+        // Best effort: the wait already failed, so a failing cancel must not replace its error
+        onStop: cancelOnAbort ? () => this.cancelJob(id, requestOptions).catch(() => undefined) : undefined,
+      }
+    ).then((result) => {
+      assertJobCompleted(result.data.id, result.data);
+      return result;
+    }));
+  }
+
+  /**
+   * Take a screenshot through an async job and download the result once it completes
+   *
+   * Combines `screenshotAsync()`, `waitForJob()` and `getJobResult()`. Use it for long
+   * captures, such as full-page PDFs, that may exceed the timeout of a synchronous request.
+   * `timeout` limits the wait for the job; the download uses the client timeout.
+   *
+   * @param request - Screenshot configuration
+   * @param options - Polling, timeout and request options
+   * @returns Result image with the completed job
+   * @throws JobFailedError if the job fails
+   * @throws JobCancelledError if the job is cancelled
+   * @throws TimeoutError if the job does not finish within `timeout`
+   *
+   * @example
+   * ```typescript
+   * const { image, contentType } = await client.screenshotAsyncAndWait(
+   *   { url: 'https://github.com', fullPage: true, format: 'pdf' },
+   *   { onProgress: (job) => console.log(job.status) }
+   * );
+   * ```
+   */
+  screenshotAsyncAndWait(request: ScreenshotRequest, options: WaitForJobOptions = {}): ApiPromise<AsyncScreenshotResult<B>> {
+    const { pollInterval, backoff, maxPollInterval, timeout, onProgress, cancelOnAbort, ...requestOptions } = options;
+    // The idempotency key belongs to the job creation, not to the polls and the download
+    const readOptions = { ...requestOptions, idempotencyKey: undefined };
+
+    return new ApiPromise((async () => {
+      const created = await this.screenshotAsync(request, requestOptions);
+      const job = await this.waitForJob(created.id, {
+        ...readOptions,
+        pollInterval,
+        backoff,
+        maxPollInterval,
+        timeout,
+        onProgress,
+        cancelOnAbort,
+      });
+      const { data: image, response } = await this.getJobResult(job.id, readOptions).withResponse();
+      return {
+        data: { image, job, contentType: response.contentType, expiresAt: job.expiresAt },
+        response,
+      };
+    })());
   }
 
   // ============================================
@@ -382,6 +1258,7 @@ export class AllscreenshotsClient {
    * Create a bulk screenshot job
    *
    * @param request - Bulk screenshot configuration
+   * @param options - Per-call request options
    * @returns Bulk job response
    *
    * @example
@@ -395,39 +1272,47 @@ export class AllscreenshotsClient {
    * });
    * ```
    */
-  async createBulkJob(request: BulkRequest): Promise<BulkResponse> {
+  createBulkJob(request: BulkRequest, options?: RequestOptions): ApiPromise<BulkResponse> {
     return this.request<BulkResponse>('POST', '/v1/screenshots/bulk', {
+      validate: validateBulkResponse,
       body: request,
-    });
+      validateBody: validateBulkRequest,
+    }, options);
   }
 
   /**
    * List all bulk jobs
    *
+   * @param options - Per-call request options
    * @returns Array of bulk job summaries
    */
-  async listBulkJobs(): Promise<BulkJobSummary[]> {
-    return this.request<BulkJobSummary[]>('GET', '/v1/screenshots/bulk');
+  listBulkJobs(options?: RequestOptions): ApiPromise<BulkJobSummary[]> {
+    return this.request<BulkJobSummary[]>('GET', '/v1/screenshots/bulk', { validate: validateListOf(validateBulkJobSummary) }, options);
   }
 
   /**
    * Get detailed status of a bulk job
    *
    * @param id - Bulk job identifier
+   * @param options - Per-call request options
    * @returns Detailed bulk job status
    */
-  async getBulkJob(id: string): Promise<BulkStatusResponse> {
-    return this.request<BulkStatusResponse>('GET', `/v1/screenshots/bulk/${encodeURIComponent(id)}`);
+  getBulkJob(id: string, options?: RequestOptions): ApiPromise<BulkStatusResponse> {
+    return this.request<BulkStatusResponse>('GET', `/v1/screenshots/bulk/${encodeURIComponent(id)}`, { validate: validateBulkStatusResponse }, options);
   }
 
   /**
    * Cancel a bulk job
    *
    * @param id - Bulk job identifier
+   * @param options - Per-call request options
    * @returns Updated bulk job summary
    */
-  async cancelBulkJob(id: string): Promise<BulkJobSummary> {
-    return this.request<BulkJobSummary>('POST', `/v1/screenshots/bulk/${encodeURIComponent(id)}/cancel`);
+  cancelBulkJob(id: string, options?: RequestOptions): ApiPromise<BulkJobSummary> {
+    return this.request<BulkJobSummary>('POST', `/v1/screenshots/bulk/${encodeURIComponent(id)}/cancel`, {
+      validate: validateBulkJobSummary,
+      idempotent: true,
+    }, options);
   }
 
   // ============================================
@@ -438,6 +1323,7 @@ export class AllscreenshotsClient {
    * Compose multiple screenshots into a single image
    *
    * @param request - Compose configuration
+   * @param options - Per-call request options
    * @returns Compose response (sync) or job status (async)
    *
    * @example
@@ -451,26 +1337,30 @@ export class AllscreenshotsClient {
    * });
    * ```
    */
-  async compose(request: ComposeRequest): Promise<ComposeResponse | ComposeJobStatusResponse> {
+  compose(request: ComposeRequest, options?: RequestOptions): ApiPromise<ComposeResponse | ComposeJobStatusResponse> {
     return this.request<ComposeResponse | ComposeJobStatusResponse>('POST', '/v1/screenshots/compose', {
+      validate: request.async ? validateComposeJobStatusResponse : validateComposeResponse,
       body: request,
-    });
+      validateBody: validateComposeRequest,
+    }, options);
   }
 
   /**
    * Preview layout placement without taking screenshots
    *
    * @param params - Layout preview parameters
+   * @param options - Per-call request options
    * @returns Layout preview response
    */
-  async previewLayout(params: {
+  previewLayout(params: {
     layout: string;
     imageCount: number;
     canvasWidth?: number;
     canvasHeight?: number;
     aspectRatios?: string;
-  }): Promise<LayoutPreviewResponse> {
+  }, options?: RequestOptions): ApiPromise<LayoutPreviewResponse> {
     return this.request<LayoutPreviewResponse>('GET', '/v1/screenshots/compose/preview', {
+      validate: validateLayoutPreviewResponse,
       query: {
         layout: params.layout,
         image_count: params.imageCount,
@@ -478,26 +1368,28 @@ export class AllscreenshotsClient {
         canvas_height: params.canvasHeight,
         aspect_ratios: params.aspectRatios,
       },
-    });
+    }, options);
   }
 
   /**
    * List all compose jobs
    *
+   * @param options - Per-call request options
    * @returns Array of compose job summaries
    */
-  async listComposeJobs(): Promise<ComposeJobSummaryResponse[]> {
-    return this.request<ComposeJobSummaryResponse[]>('GET', '/v1/screenshots/compose/jobs');
+  listComposeJobs(options?: RequestOptions): ApiPromise<ComposeJobSummaryResponse[]> {
+    return this.request<ComposeJobSummaryResponse[]>('GET', '/v1/screenshots/compose/jobs', { validate: validateListOf(validateComposeJobSummaryResponse) }, options);
   }
 
   /**
    * Get the status of a compose job
    *
    * @param jobId - Compose job identifier
+   * @param options - Per-call request options
    * @returns Compose job status
    */
-  async getComposeJob(jobId: string): Promise<ComposeJobStatusResponse> {
-    return this.request<ComposeJobStatusResponse>('GET', `/v1/screenshots/compose/jobs/${encodeURIComponent(jobId)}`);
+  getComposeJob(jobId: string, options?: RequestOptions): ApiPromise<ComposeJobStatusResponse> {
+    return this.request<ComposeJobStatusResponse>('GET', `/v1/screenshots/compose/jobs/${encodeURIComponent(jobId)}`, { validate: validateComposeJobStatusResponse }, options);
   }
 
   // ============================================
@@ -508,6 +1400,7 @@ export class AllscreenshotsClient {
    * Create a scheduled screenshot
    *
    * @param request - Schedule configuration
+   * @param options - Per-call request options
    * @returns Created schedule
    *
    * @example
@@ -520,29 +1413,33 @@ export class AllscreenshotsClient {
    * });
    * ```
    */
-  async createSchedule(request: CreateScheduleRequest): Promise<ScheduleResponse> {
+  createSchedule(request: CreateScheduleRequest, options?: RequestOptions): ApiPromise<ScheduleResponse> {
     return this.request<ScheduleResponse>('POST', '/v1/schedules', {
+      validate: validateScheduleResponse,
       body: request,
-    });
+      validateBody: validateCreateScheduleRequest,
+    }, options);
   }
 
   /**
    * List all schedules
    *
+   * @param options - Per-call request options
    * @returns Schedule list response
    */
-  async listSchedules(): Promise<ScheduleListResponse> {
-    return this.request<ScheduleListResponse>('GET', '/v1/schedules');
+  listSchedules(options?: RequestOptions): ApiPromise<ScheduleListResponse> {
+    return this.request<ScheduleListResponse>('GET', '/v1/schedules', { validate: validateScheduleListResponse }, options);
   }
 
   /**
    * Get a schedule by ID
    *
    * @param id - Schedule identifier
+   * @param options - Per-call request options
    * @returns Schedule details
    */
-  async getSchedule(id: string): Promise<ScheduleResponse> {
-    return this.request<ScheduleResponse>('GET', `/v1/schedules/${encodeURIComponent(id)}`);
+  getSchedule(id: string, options?: RequestOptions): ApiPromise<ScheduleResponse> {
+    return this.request<ScheduleResponse>('GET', `/v1/schedules/${encodeURIComponent(id)}`, { validate: validateScheduleResponse }, options);
   }
 
   /**
@@ -550,51 +1447,64 @@ export class AllscreenshotsClient {
    *
    * @param id - Schedule identifier
    * @param request - Update parameters
+   * @param options - Per-call request options
    * @returns Updated schedule
    */
-  async updateSchedule(id: string, request: UpdateScheduleRequest): Promise<ScheduleResponse> {
+  updateSchedule(id: string, request: UpdateScheduleRequest, options?: RequestOptions): ApiPromise<ScheduleResponse> {
     return this.request<ScheduleResponse>('PUT', `/v1/schedules/${encodeURIComponent(id)}`, {
+      validate: validateScheduleResponse,
       body: request,
-    });
+      validateBody: validateUpdateScheduleRequest,
+    }, options);
   }
 
   /**
    * Delete a schedule
    *
    * @param id - Schedule identifier
+   * @param options - Per-call request options
    */
-  async deleteSchedule(id: string): Promise<void> {
-    await this.request<void>('DELETE', `/v1/schedules/${encodeURIComponent(id)}`);
+  deleteSchedule(id: string, options?: RequestOptions): ApiPromise<void> {
+    return this.request<void>('DELETE', `/v1/schedules/${encodeURIComponent(id)}`, {}, options);
   }
 
   /**
    * Pause a schedule
    *
    * @param id - Schedule identifier
+   * @param options - Per-call request options
    * @returns Updated schedule
    */
-  async pauseSchedule(id: string): Promise<ScheduleResponse> {
-    return this.request<ScheduleResponse>('POST', `/v1/schedules/${encodeURIComponent(id)}/pause`);
+  pauseSchedule(id: string, options?: RequestOptions): ApiPromise<ScheduleResponse> {
+    return this.request<ScheduleResponse>('POST', `/v1/schedules/${encodeURIComponent(id)}/pause`, {
+      validate: validateScheduleResponse,
+      idempotent: true,
+    }, options);
   }
 
   /**
    * Resume a paused schedule
    *
    * @param id - Schedule identifier
+   * @param options - Per-call request options
    * @returns Updated schedule
    */
-  async resumeSchedule(id: string): Promise<ScheduleResponse> {
-    return this.request<ScheduleResponse>('POST', `/v1/schedules/${encodeURIComponent(id)}/resume`);
+  resumeSchedule(id: string, options?: RequestOptions): ApiPromise<ScheduleResponse> {
+    return this.request<ScheduleResponse>('POST', `/v1/schedules/${encodeURIComponent(id)}/resume`, {
+      validate: validateScheduleResponse,
+      idempotent: true,
+    }, options);
   }
 
   /**
    * Manually trigger a schedule
    *
    * @param id - Schedule identifier
+   * @param options - Per-call request options
    * @returns Updated schedule
    */
-  async triggerSchedule(id: string): Promise<ScheduleResponse> {
-    return this.request<ScheduleResponse>('POST', `/v1/schedules/${encodeURIComponent(id)}/trigger`);
+  triggerSchedule(id: string, options?: RequestOptions): ApiPromise<ScheduleResponse> {
+    return this.request<ScheduleResponse>('POST', `/v1/schedules/${encodeURIComponent(id)}/trigger`, { validate: validateScheduleResponse }, options);
   }
 
   /**
@@ -602,12 +1512,14 @@ export class AllscreenshotsClient {
    *
    * @param id - Schedule identifier
    * @param limit - Maximum number of executions to return
+   * @param options - Per-call request options
    * @returns Schedule history
    */
-  async getScheduleHistory(id: string, limit?: number): Promise<ScheduleHistoryResponse> {
+  getScheduleHistory(id: string, limit?: number, options?: RequestOptions): ApiPromise<ScheduleHistoryResponse> {
     return this.request<ScheduleHistoryResponse>('GET', `/v1/schedules/${encodeURIComponent(id)}/history`, {
+      validate: validateScheduleHistoryResponse,
       query: { limit },
-    });
+    }, options);
   }
 
   // ============================================
@@ -617,18 +1529,20 @@ export class AllscreenshotsClient {
   /**
    * Get usage statistics
    *
+   * @param options - Per-call request options
    * @returns Usage details including history and totals
    */
-  async getUsage(): Promise<UsageResponse> {
-    return this.request<UsageResponse>('GET', '/v1/usage');
+  getUsage(options?: RequestOptions): ApiPromise<UsageResponse> {
+    return this.request<UsageResponse>('GET', '/v1/usage', { validate: validateUsageResponse }, options);
   }
 
   /**
    * Get current quota status
    *
+   * @param options - Per-call request options
    * @returns Quota details
    */
-  async getQuotaStatus(): Promise<QuotaStatusResponse> {
-    return this.request<QuotaStatusResponse>('GET', '/v1/usage/quota');
+  getQuotaStatus(options?: RequestOptions): ApiPromise<QuotaStatusResponse> {
+    return this.request<QuotaStatusResponse>('GET', '/v1/usage/quota', { validate: validateQuotaStatusResponse }, options);
   }
 }
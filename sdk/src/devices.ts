@@ -0,0 +1,97 @@
+/**
+ * Catalog of device presets
+ */
+
+import type { Device, KnownDevice, ViewportConfig } from './models/index.js';
+
+/**
+ * Kind of device a preset emulates
+ */
+export type DeviceCategory = 'desktop' | 'tablet' | 'mobile';
+
+/**
+ * Device preset with the viewport the API renders it at
+ */
+export interface DevicePreset {
+  /** Name to pass as `device` */
+  name: KnownDevice;
+  /** Kind of device */
+  category: DeviceCategory;
+  /** Viewport width in CSS pixels */
+  width: number;
+  /** Viewport height in CSS pixels */
+  height: number;
+  /** Device pixel ratio */
+  deviceScaleFactor: number;
+  /** Whether the page sees a mobile user agent and viewport */
+  isMobile: boolean;
+  /** Whether touch events are supported */
+  hasTouch: boolean;
+}
+
+/**
+ * Known device presets, keyed by name
+ *
+ * @example
+ * ```typescript
+ * const { width, height } = DEVICE_PRESETS['iPhone 14']; // 390 x 844
+ * ```
+ */
+export const DEVICE_PRESETS: Readonly<Record<KnownDevice, DevicePreset>> = {
+  'Desktop HD': {
+    name: 'Desktop HD', category: 'desktop', width: 1920, height: 1080, deviceScaleFactor: 1, isMobile: false, hasTouch: false,
+  },
+  'Desktop': {
+    name: 'Desktop', category: 'desktop', width: 1440, height: 900, deviceScaleFactor: 1, isMobile: false, hasTouch: false,
+  },
+  'Laptop': {
+    name: 'Laptop', category: 'desktop', width: 1366, height: 768, deviceScaleFactor: 1, isMobile: false, hasTouch: false,
+  },
+  'iPhone 14': {
+    name: 'iPhone 14', category: 'mobile', width: 390, height: 844, deviceScaleFactor: 3, isMobile: true, hasTouch: true,
+  },
+  'iPhone 14 Pro Max': {
+    name: 'iPhone 14 Pro Max', category: 'mobile', width: 430, height: 932, deviceScaleFactor: 3, isMobile: true, hasTouch: true,
+  },
+  'iPad': {
+    name: 'iPad', category: 'tablet', width: 820, height: 1180, deviceScaleFactor: 2, isMobile: true, hasTouch: true,
+  },
+  'iPad Pro': {
+    name: 'iPad Pro', category: 'tablet', width: 1024, height: 1366, deviceScaleFactor: 2, isMobile: true, hasTouch: true,
+  },
+};
+
+/**
+ * Whether a device name is one of the known presets
+ */
+export function isKnownDevice(device: string): device is KnownDevice {
+  return Object.prototype.hasOwnProperty.call(DEVICE_PRESETS, device);
+}
+
+/**
+ * Known presets of a category, in catalog order
+ *
+ * @example
+ * ```typescript
+ * const phones = devicesByCategory('mobile').map((preset) => preset.name);
+ * ```
+ */
+export function devicesByCategory(category: DeviceCategory): DevicePreset[] {
+  return Object.values(DEVICE_PRESETS).filter((preset) => preset.category === category);
+}
+
+/**
+ * Viewport a device preset renders at, or undefined for names not in the catalog
+ *
+ * @example
+ * ```typescript
+ * viewportFor('iPad'); // { width: 820, height: 1180, deviceScaleFactor: 2 }
+ * ```
+ */
+export function viewportFor(device: Device): ViewportConfig | undefined {
+  if (!isKnownDevice(device)) {
+    return undefined;
+  }
+  const { width, height, deviceScaleFactor } = DEVICE_PRESETS[device];
+  return { width, height, deviceScaleFactor };
+}
@@ -2,6 +2,48 @@
  * Custom error types for the Allscreenshots SDK
  */
 
+import type { ResponseMetadata } from '../utils/response.js';
+import type { ValidationIssue } from '../validation/schema.js';
+
+/**
+ * Error codes set by the SDK error classes
+ *
+ * Errors for statuses without a dedicated class carry the code sent by the API,
+ * so `errorCode` may also hold codes not listed here.
+ */
+export type ErrorCode =
+  | 'VALIDATION_ERROR'
+  | 'AUTHENTICATION_ERROR'
+  | 'QUOTA_EXCEEDED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'REQUEST_TIMEOUT'
+  | 'CONFLICT'
+  | 'PAYLOAD_TOO_LARGE'
+  | 'UNPROCESSABLE_ENTITY'
+  | 'RATE_LIMIT_EXCEEDED'
+  | 'SERVER_ERROR'
+  | 'NETWORK_ERROR'
+  | 'TIMEOUT_ERROR'
+  | 'ABORTED'
+  | 'CIRCUIT_OPEN'
+  | 'RESPONSE_VALIDATION_ERROR'
+  | 'JOB_FAILED'
+  | 'JOB_CANCELLED';
+
+/**
+ * Options for constructing an SDK error
+ */
+export interface AllscreenshotsErrorOptions {
+  /** Underlying error that caused this one */
+  cause?: unknown;
+  /** Whether the request may succeed when retried (default: false) */
+  isRetryable?: boolean;
+}
+
+/** Marks SDK errors, so they are recognized across duplicate copies of the package */
+const ERROR_BRAND = Symbol.for('@allscreenshots/sdk/error');
+
 /**
  * Base error class for all SDK errors
  */
@@ -9,28 +51,105 @@ export class AllscreenshotsError extends Error {
   /** HTTP status code if applicable */
   public readonly statusCode?: number;
   /** Error code from API */
-  public readonly errorCode?: string;
+  public readonly errorCode?: ErrorCode | (string & {});
+  /** Whether the request may succeed when retried */
+  public readonly isRetryable: boolean;
+  /** Metadata of the HTTP response that caused the error, if any */
+  public response?: ResponseMetadata;
+  /** Body of the error response as received from the API, if any */
+  public rawBody?: unknown;
 
-  constructor(message: string, statusCode?: number, errorCode?: string) {
-    super(message);
+  constructor(message: string, statusCode?: number, errorCode?: string, options: AllscreenshotsErrorOptions = {}) {
+    super(message, options.cause === undefined ? undefined : { cause: options.cause });
     this.name = 'AllscreenshotsError';
     this.statusCode = statusCode;
     this.errorCode = errorCode;
+    this.isRetryable = options.isRetryable ?? false;
+    Object.defineProperty(this, ERROR_BRAND, { value: true });
     Object.setPrototypeOf(this, AllscreenshotsError.prototype);
   }
+
+  /**
+   * Request identifier assigned by the API (X-Request-Id), useful for support requests
+   */
+  get requestId(): string | undefined {
+    return this.response?.requestId;
+  }
+
+  /**
+   * Plain representation for logging and `JSON.stringify`
+   *
+   * Includes the fields of subclasses, such as `validationErrors` or `retryAfter`.
+   * Response headers are left out; the request ID is kept.
+   */
+  toJSON(): Record<string, unknown> {
+    const fields = Object.fromEntries(Object.entries(this).filter(([key]) => key !== 'response'));
+    return {
+      ...fields,
+      name: this.name,
+      message: this.message,
+      requestId: this.requestId,
+      cause: serializeCause(this.cause),
+    };
+  }
+}
+
+function serializeCause(cause: unknown): unknown {
+  if (isAllscreenshotsError(cause)) {
+    return cause.toJSON();
+  }
+  if (cause instanceof Error) {
+    return { name: cause.name, message: cause.message };
+  }
+  return cause;
+}
+
+/**
+ * Check whether a value is an SDK error, optionally with a given error code
+ *
+ * Unlike `instanceof`, this also recognizes errors thrown by another copy of the
+ * SDK, e.g. when a dependency bundles its own version.
+ *
+ * @example
+ * ```typescript
+ * if (isAllscreenshotsError(error, 'RATE_LIMIT_EXCEEDED')) {
+ *   console.log(`Rate limited, request ${error.requestId}`);
+ * }
+ * ```
+ */
+export function isAllscreenshotsError(value: unknown, errorCode?: ErrorCode): value is AllscreenshotsError {
+  if (typeof value !== 'object' || value === null || (value as Record<symbol, unknown>)[ERROR_BRAND] !== true) {
+    return false;
+  }
+  return errorCode === undefined || (value as AllscreenshotsError).errorCode === errorCode;
 }
 
 /**
  * Error thrown when API key is missing or invalid
  */
 export class AuthenticationError extends AllscreenshotsError {
-  constructor(message: string = 'Authentication failed. Check your API key.') {
-    super(message, 401, 'AUTHENTICATION_ERROR');
+  constructor(
+    message: string = 'Authentication failed. Check your API key.',
+    statusCode: number = 401,
+    errorCode: ErrorCode = 'AUTHENTICATION_ERROR'
+  ) {
+    super(message, statusCode, errorCode);
     this.name = 'AuthenticationError';
     Object.setPrototypeOf(this, AuthenticationError.prototype);
   }
 }
 
+/**
+ * Error thrown when the API key is valid but not allowed to perform the request (403)
+ */
+export class ForbiddenError extends AuthenticationError {
+  constructor(message: string = 'Access to this resource is forbidden') {
+    super(message, 403, 'FORBIDDEN');
+    this.name = 'ForbiddenError';
+    Object.setPrototypeOf(this, ForbiddenError.prototype);
+  }
+}
+
 /**
  * Error thrown when request validation fails
  */
@@ -38,14 +157,30 @@ export class ValidationError extends AllscreenshotsError {
   /** Field-level validation errors */
   public readonly validationErrors?: Record<string, string>;
 
-  constructor(message: string, validationErrors?: Record<string, string>) {
-    super(message, 400, 'VALIDATION_ERROR');
+  constructor(
+    message: string,
+    validationErrors?: Record<string, string>,
+    statusCode: number = 400,
+    errorCode: ErrorCode = 'VALIDATION_ERROR'
+  ) {
+    super(message, statusCode, errorCode);
     this.name = 'ValidationError';
     this.validationErrors = validationErrors;
     Object.setPrototypeOf(this, ValidationError.prototype);
   }
 }
 
+/**
+ * Error thrown when the request is well-formed but cannot be processed (422)
+ */
+export class UnprocessableEntityError extends ValidationError {
+  constructor(message: string = 'Request could not be processed', validationErrors?: Record<string, string>) {
+    super(message, validationErrors, 422, 'UNPROCESSABLE_ENTITY');
+    this.name = 'UnprocessableEntityError';
+    Object.setPrototypeOf(this, UnprocessableEntityError.prototype);
+  }
+}
+
 /**
  * Error thrown when a requested resource is not found
  */
@@ -57,15 +192,38 @@ export class NotFoundError extends AllscreenshotsError {
   }
 }
 
+/**
+ * Error thrown when a request conflicts with the current state of a resource (409),
+ * e.g. fetching the result of a job that has not completed
+ */
+export class ConflictError extends AllscreenshotsError {
+  constructor(message: string = 'Request conflicts with the current state of the resource') {
+    super(message, 409, 'CONFLICT');
+    this.name = 'ConflictError';
+    Object.setPrototypeOf(this, ConflictError.prototype);
+  }
+}
+
+/**
+ * Error thrown when the request body is larger than the API accepts (413)
+ */
+export class PayloadTooLargeError extends AllscreenshotsError {
+  constructor(message: string = 'Request payload too large') {
+    super(message, 413, 'PAYLOAD_TOO_LARGE');
+    this.name = 'PayloadTooLargeError';
+    Object.setPrototypeOf(this, PayloadTooLargeError.prototype);
+  }
+}
+
 /**
  * Error thrown when rate limit is exceeded
  */
 export class RateLimitError extends AllscreenshotsError {
-  /** When rate limit resets (Unix timestamp) */
+  /** Seconds to wait before retrying, from the Retry-After header */
   public readonly retryAfter?: number;
 
   constructor(message: string = 'Rate limit exceeded', retryAfter?: number) {
-    super(message, 429, 'RATE_LIMIT_EXCEEDED');
+    super(message, 429, 'RATE_LIMIT_EXCEEDED', { isRetryable: true });
     this.name = 'RateLimitError';
     this.retryAfter = retryAfter;
     Object.setPrototypeOf(this, RateLimitError.prototype);
@@ -88,19 +246,45 @@ export class QuotaExceededError extends AllscreenshotsError {
  */
 export class ServerError extends AllscreenshotsError {
   constructor(message: string = 'Internal server error', statusCode: number = 500) {
-    super(message, statusCode, 'SERVER_ERROR');
+    super(message, statusCode, 'SERVER_ERROR', { isRetryable: true });
     this.name = 'ServerError';
     Object.setPrototypeOf(this, ServerError.prototype);
   }
 }
 
+/**
+ * What went wrong on the network
+ *
+ * - `dns`: the API host name could not be resolved
+ * - `connection_refused`: nothing accepted the connection
+ * - `connection_timeout`: the connection could not be established in time
+ * - `connection_reset`: the connection was closed before a response arrived
+ * - `tls`: the TLS handshake failed, e.g. on an invalid certificate
+ * - `body_interrupted`: the connection broke while reading the response body
+ * - `unknown`: the runtime gave no details (browsers report every failure alike)
+ */
+export type NetworkErrorKind =
+  | 'dns'
+  | 'connection_refused'
+  | 'connection_timeout'
+  | 'connection_reset'
+  | 'tls'
+  | 'body_interrupted'
+  | 'unknown';
+
 /**
  * Error thrown when a network error occurs
+ *
+ * Retryable unless the TLS handshake failed, which retrying will not fix.
  */
 export class NetworkError extends AllscreenshotsError {
-  constructor(message: string = 'Network error occurred') {
-    super(message, undefined, 'NETWORK_ERROR');
+  /** What went wrong on the network */
+  public readonly kind: NetworkErrorKind;
+
+  constructor(message: string = 'Network error occurred', kind: NetworkErrorKind = 'unknown', cause?: unknown) {
+    super(message, undefined, 'NETWORK_ERROR', { cause, isRetryable: kind !== 'tls' });
     this.name = 'NetworkError';
+    this.kind = kind;
     Object.setPrototypeOf(this, NetworkError.prototype);
   }
 }
@@ -109,13 +293,107 @@ export class NetworkError extends AllscreenshotsError {
  * Error thrown when a request times out
  */
 export class TimeoutError extends AllscreenshotsError {
-  constructor(message: string = 'Request timed out') {
-    super(message, undefined, 'TIMEOUT_ERROR');
+  constructor(message: string = 'Request timed out', statusCode?: number, errorCode: ErrorCode = 'TIMEOUT_ERROR') {
+    super(message, statusCode, errorCode, { isRetryable: true });
     this.name = 'TimeoutError';
     Object.setPrototypeOf(this, TimeoutError.prototype);
   }
 }
 
+/**
+ * Error thrown when the API gave up waiting for the request to arrive (408)
+ */
+export class RequestTimeoutError extends TimeoutError {
+  constructor(message: string = 'Request timed out on the server') {
+    super(message, 408, 'REQUEST_TIMEOUT');
+    this.name = 'RequestTimeoutError';
+    Object.setPrototypeOf(this, RequestTimeoutError.prototype);
+  }
+}
+
+/**
+ * Error thrown when a request is cancelled through its AbortSignal
+ */
+export class AbortError extends AllscreenshotsError {
+  constructor(message: string = 'Request was aborted') {
+    super(message, undefined, 'ABORTED');
+    this.name = 'AbortError';
+    Object.setPrototypeOf(this, AbortError.prototype);
+  }
+}
+
+/**
+ * Error thrown without calling the API while the circuit breaker is open
+ */
+export class CircuitOpenError extends AllscreenshotsError {
+  /** Milliseconds until the circuit lets a probe request through */
+  public readonly retryAfterMs?: number;
+
+  constructor(message: string = 'Circuit breaker is open', retryAfterMs?: number) {
+    super(message, undefined, 'CIRCUIT_OPEN');
+    this.name = 'CircuitOpenError';
+    this.retryAfterMs = retryAfterMs;
+    Object.setPrototypeOf(this, CircuitOpenError.prototype);
+  }
+}
+
+/**
+ * Error thrown in strict response validation mode when a response does not match its model
+ */
+export class ResponseValidationError extends AllscreenshotsError {
+  /** Path to the first offending field, e.g. `jobs[0].status`; empty when the whole body is wrong */
+  public readonly path: string;
+  /** Every problem found in the response */
+  public readonly issues: ValidationIssue[];
+
+  constructor(message: string, issues: ValidationIssue[]) {
+    super(message, undefined, 'RESPONSE_VALIDATION_ERROR');
+    this.name = 'ResponseValidationError';
+    this.path = issues[0]?.path ?? '';
+    this.issues = issues;
+    Object.setPrototypeOf(this, ResponseValidationError.prototype);
+  }
+}
+
+/**
+ * Error thrown when waiting for a job that ends in the FAILED status
+ */
+export class JobFailedError extends AllscreenshotsError {
+  /** Identifier of the failed job */
+  public readonly jobId: string;
+  /** Reason the job failed, as reported by the API */
+  public readonly errorMessage?: string;
+  /** Error code reported for the job, if any; `errorCode` is always JOB_FAILED */
+  public readonly jobErrorCode?: string;
+
+  constructor(jobId: string, errorMessage?: string, jobErrorCode?: string) {
+    super(`Job ${jobId} failed${errorMessage ? `: ${errorMessage}` : ''}`, undefined, 'JOB_FAILED');
+    this.name = 'JobFailedError';
+    this.jobId = jobId;
+    this.errorMessage = errorMessage;
+    this.jobErrorCode = jobErrorCode;
+    Object.setPrototypeOf(this, JobFailedError.prototype);
+  }
+}
+
+/**
+ * Error thrown when waiting for a job that was cancelled
+ */
+export class JobCancelledError extends AllscreenshotsError {
+  /** Identifier of the cancelled job */
+  public readonly jobId: string;
+  /** Message reported for the job, if any */
+  public readonly errorMessage?: string;
+
+  constructor(jobId: string, errorMessage?: string) {
+    super(`Job ${jobId} was cancelled`, undefined, 'JOB_CANCELLED');
+    this.name = 'JobCancelledError';
+    this.jobId = jobId;
+    this.errorMessage = errorMessage;
+    Object.setPrototypeOf(this, JobCancelledError.prototype);
+  }
+}
+
 /**
  * Error response from the API
  */
@@ -140,20 +418,39 @@ export function parseApiError(
     : body?.message || body?.error || `HTTP ${statusCode} error`;
 
   const errorCode = typeof body === 'object' ? body?.errorCode : undefined;
+  const validationErrors = typeof body === 'object' ? body?.validationErrors : undefined;
+
+  const error = createApiError(statusCode, message, errorCode, validationErrors, retryAfter);
+  error.rawBody = body ?? undefined;
+  return error;
+}
 
+function createApiError(
+  statusCode: number,
+  message: string,
+  errorCode: string | undefined,
+  validationErrors: Record<string, string> | undefined,
+  retryAfter: number | undefined
+): AllscreenshotsError {
   switch (statusCode) {
     case 400:
-      return new ValidationError(
-        message,
-        typeof body === 'object' ? body?.validationErrors : undefined
-      );
+      return new ValidationError(message, validationErrors);
     case 401:
-    case 403:
       return new AuthenticationError(message);
     case 402:
       return new QuotaExceededError(message);
+    case 403:
+      return new ForbiddenError(message);
     case 404:
       return new NotFoundError(message);
+    case 408:
+      return new RequestTimeoutError(message);
+    case 409:
+      return new ConflictError(message);
+    case 413:
+      return new PayloadTooLargeError(message);
+    case 422:
+      return new UnprocessableEntityError(message, validationErrors);
     case 429:
       return new RateLimitError(message, retryAfter);
     case 500:
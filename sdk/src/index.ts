@@ -34,23 +34,119 @@
  */
 
 // Client
-export { AllscreenshotsClient, AllscreenshotsClientBuilder, type AllscreenshotsConfig } from './client.js';
+export {
+  AllscreenshotsClient,
+  AllscreenshotsClientBuilder,
+  type AllscreenshotsConfig,
+  type FetchFunction,
+  type RequestOptions,
+  type StreamOptions,
+  type ScreenshotOptions,
+  type CoalesceConfig,
+  type ResponseValidationMode,
+  type WaitForJobOptions,
+  type AsyncScreenshotResult,
+} from './client.js';
 
 // Models
 export * from './models/index.js';
 
+// Devices
+export {
+  DEVICE_PRESETS,
+  devicesByCategory,
+  viewportFor,
+  isKnownDevice,
+  type DevicePreset,
+  type DeviceCategory,
+} from './devices.js';
+
+// Jobs
+export {
+  ScreenshotJob,
+  BulkJob,
+  ComposeJob,
+  JobHandle,
+  TERMINAL_JOB_STATUSES,
+  type JobHandleData,
+  type JobHandleType,
+  type JobStatusFields,
+  type JobWaitOptions,
+  type JobWatchOptions,
+} from './jobs/index.js';
+
 // Errors
 export {
   AllscreenshotsError,
   AuthenticationError,
+  ForbiddenError,
   ValidationError,
+  UnprocessableEntityError,
   NotFoundError,
+  ConflictError,
+  PayloadTooLargeError,
   RateLimitError,
   QuotaExceededError,
   ServerError,
   NetworkError,
   TimeoutError,
+  RequestTimeoutError,
+  AbortError,
+  CircuitOpenError,
+  ResponseValidationError,
+  JobFailedError,
+  JobCancelledError,
+  isAllscreenshotsError,
+  type ErrorCode,
+  type AllscreenshotsErrorOptions,
+  type NetworkErrorKind,
 } from './errors/index.js';
 
+// Validation
+export * from './validation/responses.js';
+export * from './validation/requests.js';
+export type { ValidationIssue, Validator } from './validation/schema.js';
+
 // Utils
-export { type RetryConfig, DEFAULT_RETRY_CONFIG } from './utils/retry.js';
+export {
+  type RetryConfig,
+  type RetryInfo,
+  DEFAULT_RETRY_CONFIG,
+  isRetryableError,
+  parseRetryAfter,
+} from './utils/retry.js';
+export { RetryBudget, type RetryBudgetOptions } from './utils/retry-budget.js';
+export { DEFAULT_POLL_OPTIONS, type PollOptions } from './utils/poll.js';
+export { generateIdempotencyKey } from './utils/idempotency.js';
+export { ApiPromise } from './utils/api-promise.js';
+export { RateLimiter, type RateLimiterOptions, type RateLimitState } from './utils/rate-limiter.js';
+export { RequestQueue, type QueueStats, type QueueTaskOptions } from './utils/request-queue.js';
+export {
+  CircuitBreaker,
+  type CircuitBreakerOptions,
+  type CircuitState,
+  type CircuitStateChange,
+} from './utils/circuit-breaker.js';
+export type { ApiResult, ResponseMetadata, RateLimitInfo } from './utils/response.js';
+export { getEnv } from './utils/runtime.js';
+export type { DownloadProgress } from './utils/stream.js';
+export {
+  ScreenshotCache,
+  MemoryCacheStore,
+  type CacheStore,
+  type CacheEntry,
+  type CacheMode,
+  type CacheStats,
+  type ScreenshotCacheOptions,
+  type MemoryCacheStoreOptions,
+} from './utils/cache.js';
+export { ApiKeyManager, type ApiKeyProvider, type ApiKeyManagerOptions } from './utils/api-key.js';
+export { RequestCoalescer, type CoalesceRunOptions } from './utils/coalescer.js';
+export type { BinaryType, BinaryData } from './utils/binary.js';
+export type {
+  Middleware,
+  NextFunction,
+  RequestContext,
+  ResponseContext,
+  QueryParams,
+} from './utils/middleware.js';
@@ -0,0 +1,91 @@
+/**
+ * Handle for bulk screenshot jobs
+ */
+
+import { JobHandle, parseJobHandleData, type JobHandleData } from './job-handle.js';
+import type { AllscreenshotsClient, RequestOptions } from '../client.js';
+import type { BulkJobDetailInfo, BulkJobSummary, BulkRequest, BulkStatusResponse } from '../models/index.js';
+import type { BinaryType } from '../utils/binary.js';
+
+/**
+ * Handle for a bulk screenshot job
+ *
+ * A bulk job completes even when some of its screenshots failed; check `failedJobs`
+ * and the status of each entry of `result()`.
+ *
+ * @example
+ * ```typescript
+ * const bulk = await BulkJob.create(client, { urls: [{ url: 'https://github.com' }, { url: 'https://google.com' }] });
+ * for await (const status of bulk) {
+ *   console.log(`${status.status}: ${status.progress}%`);
+ * }
+ * const jobs = await bulk.result();
+ * ```
+ */
+export class BulkJob extends JobHandle<BulkStatusResponse> {
+  readonly type = 'bulk';
+  private readonly client: AllscreenshotsClient<BinaryType>;
+
+  /**
+   * @param client - Client used for all calls of the handle
+   * @param id - Identifier of an existing bulk job
+   * @param status - Last known status, if any
+   */
+  constructor(client: AllscreenshotsClient<BinaryType>, id: string, status?: string) {
+    super(id, status);
+    this.client = client;
+  }
+
+  /**
+   * Start a bulk screenshot job
+   *
+   * @param client - Client used for all calls of the handle
+   * @param request - Bulk screenshot configuration
+   * @param options - Per-call request options
+   * @returns Handle for the created bulk job
+   */
+  static async create(client: AllscreenshotsClient<BinaryType>, request: BulkRequest, options?: RequestOptions): Promise<BulkJob> {
+    const created = await client.createBulkJob(request, options);
+    return new BulkJob(client, created.id, created.status);
+  }
+
+  /**
+   * Resume a handle serialized with `toJSON()`
+   *
+   * @throws TypeError if the data is not a serialized bulk job
+   */
+  static fromJSON(client: AllscreenshotsClient<BinaryType>, data: JobHandleData): BulkJob {
+    const { id, status } = parseJobHandleData(data, 'bulk');
+    return new BulkJob(client, id, status);
+  }
+
+  protected load(options?: RequestOptions): Promise<BulkStatusResponse> {
+    return this.client.getBulkJob(this.id, options);
+  }
+
+  protected abandon(options: RequestOptions): Promise<unknown> {
+    return this.cancel(options);
+  }
+
+  /**
+   * Cancel the bulk job and all of its screenshots that have not finished
+   *
+   * @param options - Per-call request options
+   * @returns Updated bulk job summary
+   */
+  async cancel(options?: RequestOptions): Promise<BulkJobSummary> {
+    const cancelled = await this.client.cancelBulkJob(this.id, options);
+    this.track(cancelled.status);
+    return cancelled;
+  }
+
+  /**
+   * Fetch the individual screenshots of the bulk job with their result URLs
+   *
+   * @param options - Per-call request options
+   * @returns Status of every screenshot in the bulk job
+   */
+  async result(options?: RequestOptions): Promise<BulkJobDetailInfo[]> {
+    return (await this.refresh(options)).jobs;
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Handle for async compose jobs
+ */
+
+import { ConflictError } from '../errors/index.js';
+import { JobHandle, assertJobCompleted, parseJobHandleData, type JobHandleData } from './job-handle.js';
+import type { AllscreenshotsClient, RequestOptions } from '../client.js';
+import type { ComposeJobStatusResponse, ComposeRequest, ComposeResponse } from '../models/index.js';
+import type { BinaryType } from '../utils/binary.js';
+
+/**
+ * Handle for an async compose job
+ *
+ * The API cannot cancel compose jobs, so there is no `cancel()` and `cancelOnAbort`
+ * only stops waiting.
+ *
+ * @example
+ * ```typescript
+ * const compose = await ComposeJob.create(client, {
+ *   url: 'https://github.com',
+ *   variants: [{ device: 'Desktop HD' }, { device: 'iPhone 14' }]
+ * });
+ * const { url } = await compose.wait().then(() => compose.result());
+ * ```
+ */
+export class ComposeJob extends JobHandle<ComposeJobStatusResponse> {
+  readonly type = 'compose';
+  private readonly client: AllscreenshotsClient<BinaryType>;
+
+  /**
+   * @param client - Client used for all calls of the handle
+   * @param id - Identifier of an existing compose job
+   * @param status - Last known status, if any
+   */
+  constructor(client: AllscreenshotsClient<BinaryType>, id: string, status?: string) {
+    super(id, status);
+    this.client = client;
+  }
+
+  /**
+   * Start an async compose job
+   *
+   * @param client - Client used for all calls of the handle
+   * @param request - Compose configuration; `async` is always set
+   * @param options - Per-call request options
+   * @returns Handle for the created compose job
+   */
+  static async create(client: AllscreenshotsClient<BinaryType>, request: ComposeRequest, options?: RequestOptions): Promise<ComposeJob> {
+    const created = await client.compose({ ...request, async: true }, options) as ComposeJobStatusResponse;
+    const job = new ComposeJob(client, created.jobId);
+    job.track(created.status, created);
+    return job;
+  }
+
+  /**
+   * Resume a handle serialized with `toJSON()`
+   *
+   * @throws TypeError if the data is not a serialized compose job
+   */
+  static fromJSON(client: AllscreenshotsClient<BinaryType>, data: JobHandleData): ComposeJob {
+    const { id, status } = parseJobHandleData(data, 'compose');
+    return new ComposeJob(client, id, status);
+  }
+
+  protected load(options?: RequestOptions): Promise<ComposeJobStatusResponse> {
+    return this.client.getComposeJob(this.id, options);
+  }
+
+  /**
+   * Fetch the composed image of the completed job
+   *
+   * @param options - Per-call request options
+   * @returns Compose result with the image URL
+   * @throws JobFailedError if the job failed
+   * @throws ConflictError if the job has not completed yet
+   */
+  async result(options?: RequestOptions): Promise<ComposeResponse> {
+    const current = await this.refresh(options);
+    assertJobCompleted(this.id, current);
+    if (!current.result) {
+      throw new ConflictError(`Compose job ${this.id} has not completed (status ${current.status})`);
+    }
+    return current.result;
+  }
+}
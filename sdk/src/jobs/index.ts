@@ -0,0 +1,8 @@
+/**
+ * Export job handles
+ */
+
+export * from './job-handle.js';
+export * from './screenshot-job.js';
+export * from './bulk-job.js';
+export * from './compose-job.js';
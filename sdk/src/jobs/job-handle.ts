@@ -0,0 +1,224 @@
+/**
+ * Shared behavior of job handles
+ */
+
+import { JobCancelledError, JobFailedError } from '../errors/index.js';
+import { DEFAULT_POLL_OPTIONS, pollUntil } from '../utils/poll.js';
+import { sleep } from '../utils/retry.js';
+import type { RequestOptions, WaitForJobOptions } from '../client.js';
+
+/**
+ * Job statuses after which a job no longer changes
+ */
+export const TERMINAL_JOB_STATUSES: readonly string[] = ['COMPLETED', 'FAILED', 'CANCELLED'];
+
+/**
+ * Kind of job a handle refers to
+ */
+export type JobHandleType = 'screenshot' | 'bulk' | 'compose';
+
+/**
+ * Serialized job handle, as returned by `toJSON()`
+ */
+export interface JobHandleData {
+  /** Kind of job */
+  type: JobHandleType;
+  /** Job identifier */
+  id: string;
+  /** Last known status */
+  status?: string;
+}
+
+/**
+ * Status fields shared by all job kinds
+ */
+export interface JobStatusFields {
+  status: string;
+  errorCode?: string;
+  errorMessage?: string;
+}
+
+/**
+ * Options for `wait()` on a job handle
+ */
+export type JobWaitOptions<T> = Omit<WaitForJobOptions, 'onProgress'> & {
+  /** Called with the job status after every poll */
+  onProgress?: (status: T) => void;
+};
+
+/**
+ * Options for `watch()` on a job handle; iteration stops once the job reaches a final status
+ */
+export type JobWatchOptions = Omit<WaitForJobOptions, 'timeout' | 'onProgress' | 'cancelOnAbort'>;
+
+/**
+ * Throw the matching error when a job in a final status did not complete
+ *
+ * @throws JobFailedError if the job failed
+ * @throws JobCancelledError if the job was cancelled
+ */
+export function assertJobCompleted(id: string, job: JobStatusFields): void {
+  if (job.status === 'FAILED') {
+    throw new JobFailedError(id, job.errorMessage, job.errorCode);
+  }
+  if (job.status === 'CANCELLED') {
+    throw new JobCancelledError(id, job.errorMessage);
+  }
+}
+
+/**
+ * Check serialized handle data before resuming a job from it
+ */
+export function parseJobHandleData(data: JobHandleData, type: JobHandleType): JobHandleData {
+  if (data?.type !== type || typeof data.id !== 'string' || data.id === '') {
+    throw new TypeError(`Expected a serialized ${type} job, got ${JSON.stringify(data)}`);
+  }
+  return data;
+}
+
+/**
+ * Handle for an async job that tracks its last known status
+ */
+export abstract class JobHandle<T extends JobStatusFields> implements AsyncIterable<T> {
+  /** Kind of job */
+  abstract readonly type: JobHandleType;
+  /** Job identifier */
+  readonly id: string;
+  /** Status response of the last refresh, if any */
+  protected current?: T;
+  private lastStatus?: string;
+
+  protected constructor(id: string, status?: string) {
+    this.id = id;
+    this.lastStatus = status;
+  }
+
+  /**
+   * Last known status, updated by every refresh
+   */
+  get status(): T['status'] | undefined {
+    return this.lastStatus;
+  }
+
+  /**
+   * Status response of the last refresh, if any
+   */
+  get latest(): T | undefined {
+    return this.current;
+  }
+
+  /**
+   * Whether the job has reached a final status, as far as known
+   */
+  get done(): boolean {
+    return this.lastStatus !== undefined && TERMINAL_JOB_STATUSES.includes(this.lastStatus);
+  }
+
+  /**
+   * Fetch the status of the job from the API
+   */
+  protected abstract load(options?: RequestOptions): Promise<T>;
+
+  /**
+   * Stop the job on the server when waiting is abandoned with `cancelOnAbort`
+   */
+  protected abandon(_options: RequestOptions): Promise<unknown> {
+    return Promise.resolve();
+  }
+
+  /**
+   * Record a status seen in a response
+   */
+  protected track(status: string, current?: T): void {
+    this.lastStatus = status;
+    if (current) {
+      this.current = current;
+    }
+  }
+
+  /**
+   * Fetch the current status of the job
+   *
+   * @param options - Per-call request options
+   * @returns Current job status
+   */
+  async refresh(options?: RequestOptions): Promise<T> {
+    const current = await this.load(options);
+    this.track(current.status, current);
+    return current;
+  }
+
+  /**
+   * Poll the job until it reaches a final status
+   *
+   * @param options - Polling, timeout and per-poll request options
+   * @returns Final job status
+   * @throws JobFailedError if the job fails
+   * @throws JobCancelledError if the job is cancelled
+   * @throws TimeoutError if the job does not finish within `timeout`
+   */
+  async wait(options: JobWaitOptions<T> = {}): Promise<T> {
+    const { pollInterval, backoff, maxPollInterval, timeout, signal, onProgress, cancelOnAbort, ...requestOptions } = options;
+
+    const final = await pollUntil(
+      (pollSignal) => this.refresh({ ...requestOptions, signal: pollSignal }),
+      (current) => TERMINAL_JOB_STATUSES.includes(current.status),
+      { pollInterval, backoff, maxPollInterval, timeout, signal },
+      {
+        onPoll: onProgress,
+        // Best effort: the wait already failed, so a failing cancel must not replace its error
+        onStop: cancelOnAbort ? () => this.abandon(requestOptions).catch(() => undefined) : undefined,
+      }
+    );
+    assertJobCompleted(this.id, final);
+    return final;
+  }
+
+  /**
+   * Poll the job and yield its status whenever it changes, until it reaches a final status
+   *
+   * Failed and cancelled jobs end the iteration like completed ones; check the final status.
+   *
+   * @example
+   * ```typescript
+   * for await (const status of job.watch({ pollInterval: 2000 })) {
+   *   console.log(status.status);
+   * }
+   * ```
+   */
+  async *watch(options: JobWatchOptions = {}): AsyncGenerator<T, void, undefined> {
+    const {
+      pollInterval = DEFAULT_POLL_OPTIONS.pollInterval,
+      backoff = DEFAULT_POLL_OPTIONS.backoff,
+      maxPollInterval = DEFAULT_POLL_OPTIONS.maxPollInterval,
+      ...requestOptions
+    } = options;
+    let previous: string | undefined;
+
+    for (let delay = pollInterval; ; delay = Math.min(delay * backoff, maxPollInterval)) {
+      const current = await this.refresh(requestOptions);
+      if (current.status !== previous) {
+        previous = current.status;
+        yield current;
+      }
+      if (TERMINAL_JOB_STATUSES.includes(current.status)) {
+        return;
+      }
+      await sleep(delay, requestOptions.signal);
+    }
+  }
+
+  /**
+   * Iterate over status changes with the default polling settings
+   */
+  [Symbol.asyncIterator](): AsyncIterator<T> {
+    return this.watch();
+  }
+
+  /**
+   * Serializable form of the handle; resume it with `fromJSON()` of the same class
+   */
+  toJSON(): JobHandleData {
+    return { type: this.type, id: this.id, status: this.lastStatus };
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Handle for async screenshot jobs
+ */
+
+import { JobHandle, parseJobHandleData, type JobHandleData } from './job-handle.js';
+import type { AllscreenshotsClient, RequestOptions } from '../client.js';
+import type { JobResponse, JobStatus, ScreenshotRequest } from '../models/index.js';
+import type { BinaryData, BinaryType } from '../utils/binary.js';
+
+/**
+ * Handle for an async screenshot job
+ *
+ * @example
+ * ```typescript
+ * const job = await ScreenshotJob.create(client, { url: 'https://github.com', fullPage: true });
+ * await job.wait();
+ * const image = await job.result();
+ *
+ * // Resume in another process
+ * const resumed = ScreenshotJob.fromJSON(client, JSON.parse(JSON.stringify(job)));
+ * ```
+ */
+export class ScreenshotJob<B extends BinaryType = 'buffer'> extends JobHandle<JobResponse> {
+  readonly type = 'screenshot';
+  private readonly client: AllscreenshotsClient<B>;
+
+  /**
+   * @param client - Client used for all calls of the handle
+   * @param id - Identifier of an existing job
+   * @param status - Last known status, if any
+   */
+  constructor(client: AllscreenshotsClient<B>, id: string, status?: JobStatus) {
+    super(id, status);
+    this.client = client;
+  }
+
+  /**
+   * Start an async screenshot job
+   *
+   * @param client - Client used for all calls of the handle
+   * @param request - Screenshot configuration
+   * @param options - Per-call request options
+   * @returns Handle for the created job
+   */
+  static async create<B extends BinaryType>(
+    client: AllscreenshotsClient<B>,
+    request: ScreenshotRequest,
+    options?: RequestOptions
+  ): Promise<ScreenshotJob<B>> {
+    const created = await client.screenshotAsync(request, options);
+    return new ScreenshotJob(client, created.id, created.status);
+  }
+
+  /**
+   * Resume a handle serialized with `toJSON()`
+   *
+   * @throws TypeError if the data is not a serialized screenshot job
+   */
+  static fromJSON<B extends BinaryType>(client: AllscreenshotsClient<B>, data: JobHandleData): ScreenshotJob<B> {
+    const { id, status } = parseJobHandleData(data, 'screenshot');
+    return new ScreenshotJob(client, id, status as JobStatus | undefined);
+  }
+
+  protected load(options?: RequestOptions): Promise<JobResponse> {
+    return this.client.getJob(this.id, options);
+  }
+
+  protected abandon(options: RequestOptions): Promise<unknown> {
+    return this.cancel(options);
+  }
+
+  /**
+   * Cancel the job
+   *
+   * @param options - Per-call request options
+   * @returns Updated job status
+   */
+  async cancel(options?: RequestOptions): Promise<JobResponse> {
+    const cancelled = await this.client.cancelJob(this.id, options);
+    this.track(cancelled.status, cancelled);
+    return cancelled;
+  }
+
+  /**
+   * Download the result image of the completed job
+   *
+   * @param options - Per-call request options
+   * @returns Binary image data
+   */
+  result(options?: RequestOptions): Promise<BinaryData<B>> {
+    return this.client.getJobResult(this.id, options);
+  }
+}
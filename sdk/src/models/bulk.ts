@@ -3,6 +3,7 @@
  */
 
 import type {
+  Device,
   ImageFormat,
   WaitUntil,
   BlockLevel,
@@ -14,7 +15,7 @@ import type {
  */
 export interface BulkDefaults {
   viewport?: ViewportConfig;
-  device?: string;
+  device?: Device;
   format?: ImageFormat;
   fullPage?: boolean;
   quality?: number;
@@ -34,7 +35,7 @@ export interface BulkDefaults {
  */
 export interface BulkUrlOptions {
   viewport?: ViewportConfig;
-  device?: string;
+  device?: Device;
   format?: ImageFormat;
   fullPage?: boolean;
   quality?: number;
@@ -3,6 +3,7 @@
  */
 
 import type {
+  Device,
   ImageFormat,
   WaitUntil,
   BlockLevel,
@@ -27,7 +28,7 @@ export interface CaptureItem {
   /** Custom viewport */
   viewport?: ViewportConfig;
   /** Device preset */
-  device?: string;
+  device?: Device;
   /** Capture full page */
   fullPage?: boolean;
   /** Enable dark mode */
@@ -43,7 +44,7 @@ export interface VariantConfig {
   id?: string;
   label?: string;
   viewport?: ViewportConfig;
-  device?: string;
+  device?: Device;
   fullPage?: boolean;
   darkMode?: boolean;
   delay?: number;
@@ -55,7 +56,7 @@ export interface VariantConfig {
  */
 export interface CaptureDefaults {
   viewport?: ViewportConfig;
-  device?: string;
+  device?: Device;
   format?: ImageFormat;
   fullPage?: boolean;
   quality?: number;
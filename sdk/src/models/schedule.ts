@@ -3,6 +3,7 @@
  */
 
 import type {
+  Device,
   ImageFormat,
   WaitUntil,
   BlockLevel,
@@ -14,7 +15,7 @@ import type {
  */
 export interface ScheduleScreenshotOptions {
   viewport?: ViewportConfig;
-  device?: string;
+  device?: Device;
   format?: ImageFormat;
   fullPage?: boolean;
   quality?: number;
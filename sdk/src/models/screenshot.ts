@@ -3,6 +3,7 @@
  */
 
 import type {
+  Device,
   ImageFormat,
   WaitUntil,
   BlockLevel,
@@ -30,7 +31,7 @@ export interface ScreenshotRequest {
   /** Custom viewport configuration */
   viewport?: ViewportConfig;
   /** Device preset name (e.g., 'Desktop HD', 'iPhone 14', 'iPad') */
-  device?: string;
+  device?: Device;
   /** Output image format */
   format?: ImageFormat;
   /** Capture the full scrollable page */
@@ -37,6 +37,24 @@ export type LayoutType = 'GRID' | 'HORIZONTAL' | 'VERTICAL' | 'MASONRY' | 'MONDR
  */
 export type Alignment = 'top' | 'center' | 'bottom';
 
+/**
+ * Device presets known to the SDK, see `DEVICE_PRESETS`
+ */
+export type KnownDevice =
+  | 'Desktop HD'
+  | 'Desktop'
+  | 'Laptop'
+  | 'iPhone 14'
+  | 'iPhone 14 Pro Max'
+  | 'iPad'
+  | 'iPad Pro';
+
+/**
+ * Device preset name; known presets autocomplete, other names are passed to the API as is
+ */
+// `string & {}` keeps the literal members from collapsing into `string`, so editors still suggest them
+export type Device = KnownDevice | (string & {});
+
 /**
  * Viewport configuration for screenshots
  */
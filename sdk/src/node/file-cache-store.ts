@@ -0,0 +1,100 @@
+/**
+ * Filesystem-backed cache store
+ */
+
+import { mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { CacheEntry, CacheStore } from '../utils/cache.js';
+
+/**
+ * Configuration for a filesystem cache store
+ */
+export interface FileSystemCacheStoreOptions {
+  /** Directory holding the cached captures; created when missing */
+  directory: string;
+}
+
+interface EntryMetadata {
+  contentType?: string;
+  createdAt: number;
+  expiresAt?: number;
+}
+
+/**
+ * Store keeping each capture as a file, with its metadata in a JSON file next to it
+ *
+ * Files are written through a temporary file and renamed into place, so several
+ * processes (e.g. parallel CI jobs) can share a directory.
+ *
+ * @example
+ * ```typescript
+ * const cache = new ScreenshotCache({
+ *   store: new FileSystemCacheStore({ directory: '.screenshot-cache' }),
+ * });
+ * ```
+ */
+export class FileSystemCacheStore implements CacheStore {
+  private readonly directory: string;
+
+  constructor(options: FileSystemCacheStoreOptions) {
+    this.directory = options.directory;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const { dataPath, metaPath } = this.paths(key);
+
+    try {
+      const metadata = JSON.parse(await readFile(metaPath, 'utf8')) as EntryMetadata;
+      const data = await readFile(dataPath);
+      return { ...metadata, data: new Uint8Array(data.buffer, data.byteOffset, data.byteLength) };
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    const { dataPath, metaPath } = this.paths(key);
+    const metadata: EntryMetadata = {
+      contentType: entry.contentType,
+      createdAt: entry.createdAt,
+      expiresAt: entry.expiresAt,
+    };
+
+    await mkdir(this.directory, { recursive: true });
+    // Data first: a reader only trusts an entry once its metadata file exists
+    await this.writeAtomic(dataPath, entry.data);
+    await this.writeAtomic(metaPath, JSON.stringify(metadata));
+  }
+
+  async delete(key: string): Promise<void> {
+    const { dataPath, metaPath } = this.paths(key);
+    await rm(metaPath, { force: true });
+    await rm(dataPath, { force: true });
+  }
+
+  async clear(): Promise<void> {
+    await rm(this.directory, { recursive: true, force: true });
+  }
+
+  private paths(key: string): { dataPath: string; metaPath: string } {
+    const name = encodeURIComponent(key);
+    return {
+      dataPath: join(this.directory, `${name}.bin`),
+      metaPath: join(this.directory, `${name}.json`),
+    };
+  }
+
+  private async writeAtomic(path: string, data: Uint8Array | string): Promise<void> {
+    const tempPath = `${path}.${Math.random().toString(36).slice(2, 10)}.tmp`;
+    try {
+      await writeFile(tempPath, data);
+      await rename(tempPath, path);
+    } catch (error) {
+      await rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+}
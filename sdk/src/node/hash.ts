@@ -0,0 +1,19 @@
+/**
+ * Hashing through `node:crypto`
+ */
+
+import { createHash } from 'node:crypto';
+
+/**
+ * SHA-256 digest of a string, as lowercase hex
+ *
+ * Pass it as `hash` of a `ScreenshotCache` in runtimes without global Web Crypto (Node.js 18).
+ *
+ * @example
+ * ```typescript
+ * const client = new AllscreenshotsClient({ cache: { hash: sha256 } });
+ * ```
+ */
+export function sha256(input: string): Promise<string> {
+  return Promise.resolve(createHash('sha256').update(input).digest('hex'));
+}
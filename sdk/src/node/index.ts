@@ -0,0 +1,9 @@
+/**
+ * Helpers for Node.js, Bun and Deno that need `node:` built-in modules
+ *
+ * Kept out of the main entry so browser, edge and worker bundles never reference them.
+ */
+
+export { toNodeReadable, writeStreamToFile, screenshotToFile, getJobResultToFile } from './stream.js';
+export { FileSystemCacheStore, type FileSystemCacheStoreOptions } from './file-cache-store.js';
+export { sha256 } from './hash.js';
@@ -0,0 +1,113 @@
+/**
+ * Node.js stream and file helpers for binary responses
+ */
+
+import { open, rename, unlink } from 'node:fs/promises';
+import { basename, dirname, join } from 'node:path';
+import { Readable } from 'node:stream';
+import type { ReadableStream as NodeWebReadableStream } from 'node:stream/web';
+import { ApiPromise } from '../utils/api-promise.js';
+import type { AllscreenshotsClient, StreamOptions } from '../client.js';
+import type { ScreenshotRequest } from '../models/index.js';
+import type { BinaryType } from '../utils/binary.js';
+
+/**
+ * Convert a web ReadableStream into a Node.js Readable
+ */
+export function toNodeReadable(stream: ReadableStream<Uint8Array>): Readable {
+  return Readable.fromWeb(stream as NodeWebReadableStream<Uint8Array>);
+}
+
+/**
+ * Write a stream to a file atomically
+ *
+ * Data is written to a temporary file in the target directory, which is renamed over
+ * the target once the stream has completed. On failure the temporary file is removed
+ * and an existing file at the target path is left untouched.
+ *
+ * @returns Number of bytes written
+ */
+export async function writeStreamToFile(stream: ReadableStream<Uint8Array>, path: string): Promise<number> {
+  const suffix = Math.random().toString(36).slice(2, 10);
+  const tempPath = join(dirname(path), `.${basename(path)}.${suffix}.tmp`);
+  const reader = stream.getReader();
+  let bytesWritten = 0;
+
+  try {
+    const file = await open(tempPath, 'wx');
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+        await file.write(value);
+        bytesWritten += value.byteLength;
+      }
+    } finally {
+      await file.close();
+    }
+    await rename(tempPath, path);
+    return bytesWritten;
+  } catch (error) {
+    await reader.cancel(error).catch(() => undefined);
+    await unlink(tempPath).catch(() => undefined);
+    throw error;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Write a streamed response to a file
+ */
+function streamToFile(stream: ApiPromise<ReadableStream<Uint8Array>>, path: string): ApiPromise<number> {
+  return new ApiPromise(stream.withResponse().then(async ({ data, response }) => ({
+    data: await writeStreamToFile(data, path),
+    response,
+  })));
+}
+
+/**
+ * Take a screenshot synchronously and write it to a file
+ *
+ * The image is streamed to a temporary file next to `path` and renamed into place
+ * once complete, so readers never see a partial file.
+ *
+ * @param client - Client used for the request
+ * @param request - Screenshot configuration
+ * @param path - Destination file path
+ * @param options - Per-call request options and progress callback
+ * @returns Number of bytes written
+ *
+ * @example
+ * ```typescript
+ * await screenshotToFile(client, { url: 'https://github.com' }, './github.png');
+ * ```
+ */
+export function screenshotToFile(
+  client: AllscreenshotsClient<BinaryType>,
+  request: ScreenshotRequest,
+  path: string,
+  options?: StreamOptions
+): ApiPromise<number> {
+  return streamToFile(client.screenshotStream(request, options), path);
+}
+
+/**
+ * Write the result image of a completed job to a file, atomically
+ *
+ * @param client - Client used for the request
+ * @param id - Job identifier
+ * @param path - Destination file path
+ * @param options - Per-call request options and progress callback
+ * @returns Number of bytes written
+ */
+export function getJobResultToFile(
+  client: AllscreenshotsClient<BinaryType>,
+  id: string,
+  path: string,
+  options?: StreamOptions
+): ApiPromise<number> {
+  return streamToFile(client.getJobResultStream(id, options), path);
+}
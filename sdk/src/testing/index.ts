@@ -0,0 +1,17 @@
+/**
+ * Test helpers for code that uses the Allscreenshots SDK
+ */
+
+export { MockServer } from './mock-server.js';
+export type { MockServerOptions, InjectedError, RecordedRequest } from './mock-server.js';
+export { placeholderCapture } from './placeholders.js';
+export { FixtureRecorder, FixtureNotFoundError } from './recorder.js';
+export type {
+  FixtureRecorderOptions,
+  RecorderMode,
+  MatchField,
+  FixtureRequest,
+  FixtureResponse,
+  FixtureInteraction,
+  FixtureFile,
+} from './recorder.js';
@@ -0,0 +1,914 @@
+/**
+ * In-process fake of the Allscreenshots API
+ */
+
+import type {
+  AsyncJobCreatedResponse,
+  BulkRequest,
+  BulkResponse,
+  BulkJobSummary,
+  BulkStatusResponse,
+  ComposeJobStatusResponse,
+  ComposeJobSummaryResponse,
+  ComposeRequest,
+  ComposeResponse,
+  CreateScheduleRequest,
+  JobResponse,
+  LayoutPreviewResponse,
+  QuotaStatusResponse,
+  ScheduleExecutionResponse,
+  ScheduleHistoryResponse,
+  ScheduleResponse,
+  ScreenshotRequest,
+  UpdateScheduleRequest,
+  UsageResponse,
+} from '../models/index.js';
+import { placeholderCapture } from './placeholders.js';
+
+/**
+ * Configuration for a mock server
+ */
+export interface MockServerOptions {
+  /** API keys accepted by the server (default: any non-empty key) */
+  apiKeys?: string[];
+  /** Base URL the server answers on (default: https://api.allscreenshots.com) */
+  baseUrl?: string;
+  /** Status polls for which a job reports PROCESSING before it completes (default: 1) */
+  processingPolls?: number;
+  /** Screenshots allowed in the current period; further captures fail with 402 (default: 1000) */
+  quota?: number;
+  /** Tier reported by the usage endpoints (default: 'PRO') */
+  tier?: string;
+  /** Delay before every response, in milliseconds (default: 0) */
+  latencyMs?: number;
+}
+
+/**
+ * Error to return instead of handling a request
+ */
+export interface InjectedError {
+  /** HTTP status code */
+  status: number;
+  /** Error message in the response body */
+  message?: string;
+  /** Error code in the response body */
+  errorCode?: string;
+  /** Value of the Retry-After header, in seconds */
+  retryAfter?: number;
+  /** Additional response headers */
+  headers?: Record<string, string>;
+  /** Number of matching requests to fail (default: 1) */
+  times?: number;
+  /** Only fail requests with this HTTP method */
+  method?: string;
+  /** Only fail requests whose path equals this string or matches this pattern */
+  path?: string | RegExp;
+}
+
+/**
+ * Request received by the mock server
+ */
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+interface MockJob {
+  job: JobResponse;
+  format?: string;
+  polls: number;
+}
+
+interface MockBulkJob {
+  id: string;
+  jobIds: string[];
+  cancelled: boolean;
+  createdAt: string;
+}
+
+interface MockComposeJob {
+  status: ComposeJobStatusResponse;
+  layout: string;
+  polls: number;
+}
+
+interface MockSchedule {
+  schedule: ScheduleResponse;
+  executions: ScheduleExecutionResponse[];
+}
+
+interface RouteContext {
+  params: string[];
+  query: URLSearchParams;
+  body: unknown;
+}
+
+type RouteHandler = (context: RouteContext) => Response;
+
+class MockHttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly errorCode?: string,
+    readonly validationErrors?: Record<string, string>
+  ) {
+    super(message);
+  }
+}
+
+const TERMINAL_STATUSES = new Set(['COMPLETED', 'FAILED', 'CANCELLED']);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Fake Allscreenshots API running in-process, for tests without network access or an API key
+ *
+ * Pass `server.fetch` as the client's `fetch`. The server implements every endpoint used
+ * by the client and keeps state in memory: async jobs move from QUEUED to PROCESSING to
+ * COMPLETED as they are polled, screenshots count towards the quota, and schedules can be
+ * paused, resumed and triggered. Captures return placeholder PNG or PDF bytes.
+ *
+ * @example
+ * ```typescript
+ * import { MockServer } from '@allscreenshots/sdk/testing';
+ *
+ * const server = new MockServer();
+ * const client = new AllscreenshotsClient({ apiKey: 'test', fetch: server.fetch });
+ *
+ * server.failNext({ status: 429, retryAfter: 1 });
+ * const image = await client.screenshot({ url: 'https://example.com' }); // retried, then succeeds
+ * expect(server.requests).toHaveLength(2);
+ * ```
+ */
+export class MockServer {
+  /** Requests received, oldest first */
+  readonly requests: RecordedRequest[] = [];
+
+  private readonly apiKeys?: Set<string>;
+  private readonly baseUrl: string;
+  private readonly processingPolls: number;
+  private readonly quota: number;
+  private readonly tier: string;
+  private readonly latencyMs: number;
+  private readonly routes: Array<{ method: string; pattern: RegExp; handler: RouteHandler }> = [];
+  private injectedErrors: Array<InjectedError & { remaining: number }> = [];
+  private jobs = new Map<string, MockJob>();
+  private bulkJobs = new Map<string, MockBulkJob>();
+  private composeJobs = new Map<string, MockComposeJob>();
+  private schedules = new Map<string, MockSchedule>();
+  private counters = new Map<string, number>();
+  private screenshotsUsed = 0;
+  private bandwidthUsed = 0;
+
+  constructor(options: MockServerOptions = {}) {
+    this.apiKeys = options.apiKeys ? new Set(options.apiKeys) : undefined;
+    this.baseUrl = (options.baseUrl ?? 'https://api.allscreenshots.com').replace(/\/+$/, '');
+    this.processingPolls = options.processingPolls ?? 1;
+    this.quota = options.quota ?? 1000;
+    this.tier = options.tier ?? 'PRO';
+    this.latencyMs = options.latencyMs ?? 0;
+    this.registerRoutes();
+  }
+
+  /**
+   * Fetch-compatible handler to pass to the client
+   */
+  readonly fetch = async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    const request = new Request(input, init);
+    await this.delay(request.signal);
+
+    const url = new URL(request.url);
+    const text = await request.text();
+    let body: unknown;
+    try {
+      body = text ? JSON.parse(text) : undefined;
+    } catch {
+      body = text;
+    }
+
+    const recorded: RecordedRequest = {
+      method: request.method,
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams),
+      headers: Object.fromEntries(request.headers),
+      body,
+    };
+    this.requests.push(recorded);
+
+    if (!request.url.startsWith(this.baseUrl)) {
+      throw new TypeError(`fetch failed: mock server does not answer on ${url.origin}`);
+    }
+    return this.handle(recorded, url.searchParams);
+  };
+
+  /**
+   * Fail the next matching request(s) with the given error
+   *
+   * @example
+   * ```typescript
+   * server.failNext({ status: 429, retryAfter: 2 });
+   * server.failNext({ status: 503, times: 3, path: /^\/v1\/screenshots\/jobs/ });
+   * server.failNext({ status: 402, message: 'Quota exceeded' });
+   * ```
+   */
+  failNext(error: InjectedError): this {
+    this.injectedErrors.push({ ...error, remaining: error.times ?? 1 });
+    return this;
+  }
+
+  /**
+   * Complete an async job immediately
+   */
+  completeJob(id: string): JobResponse {
+    const job = this.requireJob(id);
+    if (!TERMINAL_STATUSES.has(job.job.status)) {
+      this.finishJob(job);
+    }
+    return job.job;
+  }
+
+  /**
+   * Fail an async job immediately
+   */
+  failJob(id: string, errorMessage = 'Failed to capture screenshot', errorCode = 'CAPTURE_FAILED'): JobResponse {
+    const job = this.requireJob(id);
+    const now = this.now();
+    job.job = {
+      ...job.job,
+      status: 'FAILED',
+      startedAt: job.job.startedAt ?? now,
+      completedAt: now,
+      errorCode,
+      errorMessage,
+    };
+    return job.job;
+  }
+
+  /**
+   * Clear all state, recorded requests and injected errors
+   */
+  reset(): void {
+    this.requests.length = 0;
+    this.injectedErrors = [];
+    this.jobs = new Map();
+    this.bulkJobs = new Map();
+    this.composeJobs = new Map();
+    this.schedules = new Map();
+    this.counters = new Map();
+    this.screenshotsUsed = 0;
+    this.bandwidthUsed = 0;
+  }
+
+  private handle(request: RecordedRequest, query: URLSearchParams): Response {
+    const injected = this.takeInjectedError(request);
+    if (injected) {
+      return this.errorResponse(injected.status, injected.message ?? `Injected ${injected.status} error`, {
+        errorCode: injected.errorCode,
+        headers: {
+          ...(injected.retryAfter !== undefined && { 'Retry-After': String(injected.retryAfter) }),
+          ...injected.headers,
+        },
+      });
+    }
+
+    const apiKey = request.headers['x-api-key'];
+    if (!apiKey || (this.apiKeys && !this.apiKeys.has(apiKey))) {
+      return this.errorResponse(401, 'Invalid or missing API key', { errorCode: 'UNAUTHORIZED' });
+    }
+
+    for (const route of this.routes) {
+      const match = route.method === request.method ? route.pattern.exec(request.path) : null;
+      if (match) {
+        try {
+          return route.handler({
+            params: match.slice(1).map((param) => decodeURIComponent(param)),
+            query,
+            body: request.body,
+          });
+        } catch (error) {
+          if (error instanceof MockHttpError) {
+            return this.errorResponse(error.status, error.message, {
+              errorCode: error.errorCode,
+              validationErrors: error.validationErrors,
+            });
+          }
+          throw error;
+        }
+      }
+    }
+    return this.errorResponse(404, `No route for ${request.method} ${request.path}`, { errorCode: 'NOT_FOUND' });
+  }
+
+  private registerRoutes(): void {
+    const id = '([^/]+)';
+    const route = (method: string, path: string, handler: RouteHandler) => {
+      this.routes.push({ method, pattern: new RegExp(`^${path}$`), handler });
+    };
+
+    // Screenshots
+    route('POST', '/v1/screenshots', ({ body }) => {
+      const request = this.validateScreenshot(body);
+      this.consumeQuota(1);
+      const capture = placeholderCapture(request.format);
+      this.bandwidthUsed += capture.data.byteLength;
+      return new Response(capture.data, {
+        status: 200,
+        headers: { 'Content-Type': capture.contentType, 'Content-Length': String(capture.data.byteLength) },
+      });
+    });
+    route('POST', '/v1/screenshots/async', ({ body }) => {
+      const request = this.validateScreenshot(body);
+      this.consumeQuota(1);
+      const job = this.createJob(request.url, request.format);
+      const created: AsyncJobCreatedResponse = {
+        id: job.id,
+        status: job.status,
+        statusUrl: `${this.baseUrl}/v1/screenshots/jobs/${job.id}`,
+        createdAt: job.createdAt,
+      };
+      return this.json(202, created);
+    });
+    route('GET', '/v1/screenshots/jobs', () => this.json(200, [...this.jobs.values()].map(({ job }) => job)));
+    route('GET', `/v1/screenshots/jobs/${id}`, ({ params }) => {
+      const job = this.requireJob(params[0]!);
+      this.advanceJob(job);
+      return this.json(200, job.job);
+    });
+    route('GET', `/v1/screenshots/jobs/${id}/result`, ({ params }) => {
+      const job = this.requireJob(params[0]!);
+      if (job.job.status !== 'COMPLETED') {
+        throw new MockHttpError(409, `Job ${job.job.id} is ${job.job.status}, result not available`, 'JOB_NOT_COMPLETED');
+      }
+      const capture = placeholderCapture(job.format);
+      this.bandwidthUsed += capture.data.byteLength;
+      return new Response(capture.data, { status: 200, headers: { 'Content-Type': capture.contentType } });
+    });
+    route('POST', `/v1/screenshots/jobs/${id}/cancel`, ({ params }) => {
+      const job = this.requireJob(params[0]!);
+      this.cancelJob(job);
+      return this.json(200, job.job);
+    });
+
+    // Bulk
+    route('POST', '/v1/screenshots/bulk', ({ body }) => {
+      const request = body as BulkRequest | undefined;
+      if (!request?.urls?.length) {
+        throw this.validationError({ urls: 'At least one URL is required' });
+      }
+      if (request.urls.length > 100) {
+        throw this.validationError({ urls: 'At most 100 URLs are allowed' });
+      }
+      request.urls.forEach(({ url }, index) => this.validateUrl(url, `urls[${index}].url`));
+      this.consumeQuota(request.urls.length);
+
+      const bulk: MockBulkJob = {
+        id: this.nextId('bulk'),
+        cancelled: false,
+        createdAt: this.now(),
+        jobIds: request.urls.map(({ url, options }) =>
+          this.createJob(url, options?.format ?? request.defaults?.format).id
+        ),
+      };
+      this.bulkJobs.set(bulk.id, bulk);
+      const response: BulkResponse = {
+        ...this.bulkSummary(bulk),
+        jobs: bulk.jobIds.map((jobId) => {
+          const { job } = this.jobs.get(jobId)!;
+          return { id: job.id, url: job.url, status: job.status };
+        }),
+      };
+      return this.json(202, response);
+    });
+    route('GET', '/v1/screenshots/bulk', () =>
+      this.json(200, [...this.bulkJobs.values()].map((bulk) => this.bulkSummary(bulk)))
+    );
+    route('GET', `/v1/screenshots/bulk/${id}`, ({ params }) => {
+      const bulk = this.requireBulkJob(params[0]!);
+      bulk.jobIds.forEach((jobId) => this.advanceJob(this.jobs.get(jobId)!));
+      const response: BulkStatusResponse = {
+        ...this.bulkSummary(bulk),
+        jobs: bulk.jobIds.map((jobId) => {
+          const { job, format } = this.jobs.get(jobId)!;
+          return {
+            id: job.id,
+            url: job.url,
+            status: job.status,
+            resultUrl: job.resultUrl,
+            format: format ?? 'png',
+            errorCode: job.errorCode,
+            errorMessage: job.errorMessage,
+            createdAt: job.createdAt,
+            completedAt: job.completedAt,
+          };
+        }),
+      };
+      return this.json(200, response);
+    });
+    route('POST', `/v1/screenshots/bulk/${id}/cancel`, ({ params }) => {
+      const bulk = this.requireBulkJob(params[0]!);
+      bulk.cancelled = true;
+      bulk.jobIds.forEach((jobId) => this.cancelJob(this.jobs.get(jobId)!));
+      return this.json(200, this.bulkSummary(bulk));
+    });
+
+    // Compose
+    route('POST', '/v1/screenshots/compose', ({ body }) => {
+      const request = (body ?? {}) as ComposeRequest;
+      const count = request.captures?.length ?? request.variants?.length ?? 0;
+      if (count === 0) {
+        throw this.validationError({ captures: 'Provide captures, or a url with variants' });
+      }
+      if (count > 20) {
+        throw this.validationError({ captures: 'At most 20 captures are allowed' });
+      }
+      request.captures?.forEach(({ url }, index) => this.validateUrl(url, `captures[${index}].url`));
+      if (request.variants) {
+        this.validateUrl(request.url, 'url');
+      }
+      this.consumeQuota(count);
+
+      const layout = request.output?.layout ?? 'AUTO';
+      if (!request.async) {
+        return this.json(200, this.composeResult(request, layout, count));
+      }
+
+      const status: ComposeJobStatusResponse = {
+        jobId: this.nextId('compose'),
+        status: 'QUEUED',
+        progress: 0,
+        totalCaptures: count,
+        completedCaptures: 0,
+        createdAt: this.now(),
+      };
+      this.composeJobs.set(status.jobId, { status, layout, polls: 0 });
+      return this.json(202, status);
+    });
+    route('GET', '/v1/screenshots/compose/preview', ({ query }) => {
+      const layout = query.get('layout');
+      const imageCount = Number(query.get('image_count'));
+      if (!layout || !Number.isInteger(imageCount) || imageCount < 1) {
+        throw this.validationError({ image_count: 'layout and a positive image_count are required' });
+      }
+      return this.json(200, this.layoutPreview(
+        layout,
+        imageCount,
+        Number(query.get('canvas_width') ?? 1200),
+        Number(query.get('canvas_height') ?? 800)
+      ));
+    });
+    route('GET', '/v1/screenshots/compose/jobs', () => {
+      const summaries: ComposeJobSummaryResponse[] = [...this.composeJobs.values()].map(({ status, layout }) => ({
+        jobId: status.jobId,
+        status: status.status,
+        totalCaptures: status.totalCaptures,
+        completedCaptures: status.completedCaptures,
+        failedCaptures: 0,
+        progress: status.progress,
+        layoutType: layout,
+        createdAt: status.createdAt,
+        completedAt: status.completedAt,
+      }));
+      return this.json(200, summaries);
+    });
+    route('GET', `/v1/screenshots/compose/jobs/${id}`, ({ params }) => {
+      const job = this.composeJobs.get(params[0]!);
+      if (!job) {
+        throw new MockHttpError(404, `Compose job ${params[0]} not found`, 'NOT_FOUND');
+      }
+      this.advanceComposeJob(job);
+      return this.json(200, job.status);
+    });
+
+    // Schedules
+    route('POST', '/v1/schedules', ({ body }) => {
+      const request = (body ?? {}) as CreateScheduleRequest;
+      const errors: Record<string, string> = {};
+      if (!request.name) errors.name = 'Name is required';
+      if (!request.schedule) errors.schedule = 'Cron expression is required';
+      if (Object.keys(errors).length > 0) {
+        throw this.validationError(errors);
+      }
+      this.validateUrl(request.url, 'url');
+
+      const now = this.now();
+      const schedule: ScheduleResponse = {
+        id: this.nextId('schedule'),
+        name: request.name,
+        url: request.url,
+        schedule: request.schedule,
+        scheduleDescription: `Cron: ${request.schedule}`,
+        timezone: request.timezone ?? 'UTC',
+        status: 'ACTIVE',
+        options: request.options as Record<string, unknown> | undefined,
+        webhookUrl: request.webhookUrl,
+        retentionDays: request.retentionDays ?? 30,
+        startsAt: request.startsAt,
+        endsAt: request.endsAt,
+        nextExecutionAt: new Date(Date.now() + DAY_MS).toISOString(),
+        executionCount: 0,
+        successCount: 0,
+        failureCount: 0,
+        createdAt: now,
+        updatedAt: now,
+      };
+      this.schedules.set(schedule.id, { schedule, executions: [] });
+      return this.json(201, schedule);
+    });
+    route('GET', '/v1/schedules', () => {
+      const schedules = [...this.schedules.values()].map(({ schedule }) => schedule);
+      return this.json(200, { schedules, total: schedules.length });
+    });
+    route('GET', `/v1/schedules/${id}`, ({ params }) => this.json(200, this.requireSchedule(params[0]!).schedule));
+    route('PUT', `/v1/schedules/${id}`, ({ params, body }) => {
+      const entry = this.requireSchedule(params[0]!);
+      const update = (body ?? {}) as UpdateScheduleRequest;
+      if (update.url !== undefined) {
+        this.validateUrl(update.url, 'url');
+      }
+      entry.schedule = {
+        ...entry.schedule,
+        ...Object.fromEntries(Object.entries(update).filter(([, value]) => value !== undefined)),
+        options: (update.options as Record<string, unknown> | undefined) ?? entry.schedule.options,
+        scheduleDescription: `Cron: ${update.schedule ?? entry.schedule.schedule}`,
+        updatedAt: this.now(),
+      };
+      return this.json(200, entry.schedule);
+    });
+    route('DELETE', `/v1/schedules/${id}`, ({ params }) => {
+      this.requireSchedule(params[0]!);
+      this.schedules.delete(params[0]!);
+      return new Response(null, { status: 204 });
+    });
+    route('POST', `/v1/schedules/${id}/pause`, ({ params }) => {
+      const entry = this.requireSchedule(params[0]!);
+      entry.schedule = { ...entry.schedule, status: 'PAUSED', nextExecutionAt: undefined, updatedAt: this.now() };
+      return this.json(200, entry.schedule);
+    });
+    route('POST', `/v1/schedules/${id}/resume`, ({ params }) => {
+      const entry = this.requireSchedule(params[0]!);
+      entry.schedule = {
+        ...entry.schedule,
+        status: 'ACTIVE',
+        nextExecutionAt: new Date(Date.now() + DAY_MS).toISOString(),
+        updatedAt: this.now(),
+      };
+      return this.json(200, entry.schedule);
+    });
+    route('POST', `/v1/schedules/${id}/trigger`, ({ params }) => {
+      const entry = this.requireSchedule(params[0]!);
+      this.consumeQuota(1);
+      const now = this.now();
+      const capture = placeholderCapture(entry.schedule.options?.format as string | undefined);
+      const executionId = this.nextId('execution');
+      entry.executions.unshift({
+        id: executionId,
+        executedAt: now,
+        status: 'COMPLETED',
+        resultUrl: `${this.baseUrl}/v1/schedules/${entry.schedule.id}/executions/${executionId}/result`,
+        fileSize: capture.data.byteLength,
+        renderTimeMs: 850,
+        expiresAt: new Date(Date.now() + (entry.schedule.retentionDays ?? 30) * DAY_MS).toISOString(),
+      });
+      entry.schedule = {
+        ...entry.schedule,
+        lastExecutedAt: now,
+        executionCount: entry.schedule.executionCount + 1,
+        successCount: entry.schedule.successCount + 1,
+        updatedAt: now,
+      };
+      return this.json(200, entry.schedule);
+    });
+    route('GET', `/v1/schedules/${id}/history`, ({ params, query }) => {
+      const entry = this.requireSchedule(params[0]!);
+      const limit = query.has('limit') ? Number(query.get('limit')) : entry.executions.length;
+      const history: ScheduleHistoryResponse = {
+        scheduleId: entry.schedule.id,
+        totalExecutions: entry.executions.length,
+        executions: entry.executions.slice(0, limit),
+      };
+      return this.json(200, history);
+    });
+
+    // Usage
+    route('GET', '/v1/usage', () => {
+      const { periodStart, periodEnd } = this.period();
+      const bandwidth = this.bandwidth();
+      const usage: UsageResponse = {
+        tier: this.tier,
+        currentPeriod: {
+          periodStart,
+          periodEnd,
+          screenshotsCount: this.screenshotsUsed,
+          bandwidthBytes: this.bandwidthUsed,
+          bandwidthFormatted: bandwidth.usedFormatted,
+        },
+        quota: { screenshots: this.screenshotQuota(), bandwidth },
+        history: [],
+        totals: {
+          screenshotsCount: this.screenshotsUsed,
+          bandwidthBytes: this.bandwidthUsed,
+          bandwidthFormatted: bandwidth.usedFormatted,
+        },
+      };
+      return this.json(200, usage);
+    });
+    route('GET', '/v1/usage/quota', () => {
+      const status: QuotaStatusResponse = {
+        tier: this.tier,
+        screenshots: this.screenshotQuota(),
+        bandwidth: this.bandwidth(),
+        periodEnds: this.period().periodEnd,
+      };
+      return this.json(200, status);
+    });
+  }
+
+  private createJob(url: string, format?: string): JobResponse {
+    const job: JobResponse = {
+      id: this.nextId('job'),
+      status: 'QUEUED',
+      url,
+      createdAt: this.now(),
+    };
+    this.jobs.set(job.id, { job, format, polls: 0 });
+    return job;
+  }
+
+  private advanceJob(entry: MockJob): void {
+    if (entry.job.status === 'QUEUED') {
+      entry.job = { ...entry.job, status: 'PROCESSING', startedAt: this.now() };
+    } else if (entry.job.status === 'PROCESSING') {
+      entry.polls++;
+      if (entry.polls >= this.processingPolls) {
+        this.finishJob(entry);
+      }
+    }
+  }
+
+  private finishJob(entry: MockJob): void {
+    const now = this.now();
+    entry.job = {
+      ...entry.job,
+      status: 'COMPLETED',
+      startedAt: entry.job.startedAt ?? now,
+      completedAt: now,
+      resultUrl: `${this.baseUrl}/v1/screenshots/jobs/${entry.job.id}/result`,
+      expiresAt: new Date(Date.now() + DAY_MS).toISOString(),
+    };
+  }
+
+  private cancelJob(entry: MockJob): void {
+    if (!TERMINAL_STATUSES.has(entry.job.status)) {
+      entry.job = { ...entry.job, status: 'CANCELLED', completedAt: this.now() };
+    }
+  }
+
+  private bulkSummary(bulk: MockBulkJob): BulkJobSummary {
+    const jobs = bulk.jobIds.map((jobId) => this.jobs.get(jobId)!.job);
+    const completedJobs = jobs.filter((job) => job.status === 'COMPLETED').length;
+    const failedJobs = jobs.filter((job) => job.status === 'FAILED').length;
+    const finished = jobs.every((job) => TERMINAL_STATUSES.has(job.status));
+    const started = jobs.some((job) => job.status !== 'QUEUED');
+
+    let status = 'QUEUED';
+    if (bulk.cancelled) {
+      status = 'CANCELLED';
+    } else if (finished) {
+      status = failedJobs === jobs.length ? 'FAILED' : 'COMPLETED';
+    } else if (started) {
+      status = 'PROCESSING';
+    }
+
+    const completedAt = finished
+      ? jobs.map((job) => job.completedAt ?? '').sort().pop()
+      : undefined;
+    return {
+      id: bulk.id,
+      status,
+      totalJobs: jobs.length,
+      completedJobs,
+      failedJobs,
+      progress: Math.round(((completedJobs + failedJobs) / jobs.length) * 100),
+      createdAt: bulk.createdAt,
+      completedAt,
+    };
+  }
+
+  private advanceComposeJob(entry: MockComposeJob): void {
+    const { status } = entry;
+    if (status.status === 'QUEUED') {
+      entry.status = { ...status, status: 'PROCESSING', progress: 50, completedCaptures: Math.floor(status.totalCaptures / 2) };
+    } else if (status.status === 'PROCESSING') {
+      entry.polls++;
+      if (entry.polls >= this.processingPolls) {
+        entry.status = {
+          ...status,
+          status: 'COMPLETED',
+          progress: 100,
+          completedCaptures: status.totalCaptures,
+          completedAt: this.now(),
+          result: this.composeResult({}, entry.layout, status.totalCaptures),
+        };
+      }
+    }
+  }
+
+  private composeResult(request: ComposeRequest, layout: string, count: number): ComposeResponse {
+    const preview = this.layoutPreview(layout, count, 1200, 800);
+    const capture = placeholderCapture(request.output?.format);
+    const captures = request.captures
+      ?? request.variants?.map((variant) => ({ ...variant, url: request.url ?? '' }))
+      ?? [];
+
+    return {
+      url: `${this.baseUrl}/v1/files/${this.nextId('file')}.png`,
+      expiresAt: new Date(Date.now() + DAY_MS).toISOString(),
+      width: preview.canvasWidth,
+      height: preview.canvasHeight,
+      format: request.output?.format ?? 'png',
+      fileSize: capture.data.byteLength,
+      renderTimeMs: 1200,
+      layout: preview.resolvedLayout,
+      metadata: {
+        totalCaptures: count,
+        captures: captures.map((item, index) => ({
+          id: item.id,
+          url: item.url,
+          label: item.label,
+          width: preview.placements[index]?.width ?? 0,
+          height: preview.placements[index]?.height ?? 0,
+        })),
+      },
+    };
+  }
+
+  private layoutPreview(layout: string, imageCount: number, canvasWidth: number, canvasHeight: number): LayoutPreviewResponse {
+    const resolvedLayout = layout === 'AUTO' ? (imageCount <= 3 ? 'HORIZONTAL' : 'GRID') : layout;
+    let columns = Math.ceil(Math.sqrt(imageCount));
+    if (resolvedLayout === 'HORIZONTAL') columns = imageCount;
+    if (resolvedLayout === 'VERTICAL') columns = 1;
+    const rows = Math.ceil(imageCount / columns);
+    const width = Math.floor(canvasWidth / columns);
+    const height = Math.floor(canvasHeight / rows);
+
+    return {
+      layout,
+      resolvedLayout,
+      canvasWidth,
+      canvasHeight,
+      placements: Array.from({ length: imageCount }, (_, index) => ({
+        index,
+        x: (index % columns) * width,
+        y: Math.floor(index / columns) * height,
+        width,
+        height,
+      })),
+    };
+  }
+
+  private screenshotQuota() {
+    return {
+      limit: this.quota,
+      used: this.screenshotsUsed,
+      remaining: Math.max(0, this.quota - this.screenshotsUsed),
+      percentUsed: Math.min(100, Math.round((this.screenshotsUsed / this.quota) * 100)),
+    };
+  }
+
+  private bandwidth() {
+    const limitBytes = 10 * 1024 * 1024 * 1024;
+    const format = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+    return {
+      limitBytes,
+      limitFormatted: format(limitBytes),
+      usedBytes: this.bandwidthUsed,
+      usedFormatted: format(this.bandwidthUsed),
+      remainingBytes: limitBytes - this.bandwidthUsed,
+      remainingFormatted: format(limitBytes - this.bandwidthUsed),
+      percentUsed: Math.round((this.bandwidthUsed / limitBytes) * 100),
+    };
+  }
+
+  private period(): { periodStart: string; periodEnd: string } {
+    const now = new Date();
+    return {
+      periodStart: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString(),
+      periodEnd: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)).toISOString(),
+    };
+  }
+
+  private consumeQuota(count: number): void {
+    if (this.screenshotsUsed + count > this.quota) {
+      throw new MockHttpError(402, 'Screenshot quota exceeded for the current period', 'QUOTA_EXCEEDED');
+    }
+    this.screenshotsUsed += count;
+  }
+
+  private validateScreenshot(body: unknown): ScreenshotRequest {
+    const request = body as ScreenshotRequest | undefined;
+    this.validateUrl(request?.url, 'url');
+    return request!;
+  }
+
+  private validateUrl(url: string | undefined, field: string): void {
+    if (!url) {
+      throw this.validationError({ [field]: 'URL is required' });
+    }
+    if (!/^https?:\/\/[^\s/$.?#].[^\s]*$/i.test(url)) {
+      throw this.validationError({ [field]: 'URL must start with http:// or https://' });
+    }
+  }
+
+  private validationError(validationErrors: Record<string, string>): MockHttpError {
+    return new MockHttpError(400, 'Validation failed', 'VALIDATION_ERROR', validationErrors);
+  }
+
+  private requireJob(id: string): MockJob {
+    const job = this.jobs.get(id);
+    if (!job) {
+      throw new MockHttpError(404, `Job ${id} not found`, 'NOT_FOUND');
+    }
+    return job;
+  }
+
+  private requireBulkJob(id: string): MockBulkJob {
+    const bulk = this.bulkJobs.get(id);
+    if (!bulk) {
+      throw new MockHttpError(404, `Bulk job ${id} not found`, 'NOT_FOUND');
+    }
+    return bulk;
+  }
+
+  private requireSchedule(id: string): MockSchedule {
+    const schedule = this.schedules.get(id);
+    if (!schedule) {
+      throw new MockHttpError(404, `Schedule ${id} not found`, 'NOT_FOUND');
+    }
+    return schedule;
+  }
+
+  private takeInjectedError(request: RecordedRequest): InjectedError | undefined {
+    const index = this.injectedErrors.findIndex((error) =>
+      (error.method === undefined || error.method.toUpperCase() === request.method)
+      && (error.path === undefined
+        || (typeof error.path === 'string' ? error.path === request.path : error.path.test(request.path)))
+    );
+    if (index === -1) {
+      return undefined;
+    }
+    const error = this.injectedErrors[index]!;
+    error.remaining--;
+    if (error.remaining <= 0) {
+      this.injectedErrors.splice(index, 1);
+    }
+    return error;
+  }
+
+  private errorResponse(
+    status: number,
+    message: string,
+    options: { errorCode?: string; validationErrors?: Record<string, string>; headers?: Record<string, string> } = {}
+  ): Response {
+    const { errorCode, validationErrors, headers } = options;
+    return this.json(status, { error: message, message, errorCode, statusCode: status, validationErrors }, headers);
+  }
+
+  private json(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Request-Id': this.nextId('req'),
+        ...headers,
+      },
+    });
+  }
+
+  private nextId(prefix: string): string {
+    const next = (this.counters.get(prefix) ?? 0) + 1;
+    this.counters.set(prefix, next);
+    return `${prefix}_${next}`;
+  }
+
+  private now(): string {
+    return new Date().toISOString();
+  }
+
+  private delay(signal: AbortSignal): Promise<void> {
+    if (signal.aborted) {
+      return Promise.reject(new DOMException('This operation was aborted', 'AbortError'));
+    }
+    if (this.latencyMs <= 0) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(resolve, this.latencyMs);
+      signal.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new DOMException('This operation was aborted', 'AbortError'));
+      }, { once: true });
+    });
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Placeholder capture bytes returned by the mock server
+ */
+
+/** 1x1 white PNG */
+const PNG_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAIAAACQd1PeAAAADElEQVR4nGP4//8/AAX+Av4N70a4AAAAAElFTkSuQmCC';
+
+/** Single blank US Letter page */
+const PDF_SOURCE = [
+  '%PDF-1.4',
+  '1 0 obj',
+  '<< /Type /Catalog /Pages 2 0 R >>',
+  'endobj',
+  '2 0 obj',
+  '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+  'endobj',
+  '3 0 obj',
+  '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] >>',
+  'endobj',
+  'xref',
+  '0 4',
+  '0000000000 65535 f ',
+  '0000000009 00000 n ',
+  '0000000058 00000 n ',
+  '0000000115 00000 n ',
+  'trailer',
+  '<< /Size 4 /Root 1 0 R >>',
+  'startxref',
+  '186',
+  '%%EOF',
+  '',
+].join('\n');
+
+/**
+ * Placeholder capture for an output format
+ *
+ * Image formats all return the PNG placeholder, labelled `image/png`; `pdf` returns a blank PDF page.
+ */
+export function placeholderCapture(format?: string): { data: Uint8Array; contentType: string } {
+  if (format === 'pdf') {
+    return { data: new TextEncoder().encode(PDF_SOURCE), contentType: 'application/pdf' };
+  }
+  return { data: Uint8Array.from(atob(PNG_BASE64), (char) => char.charCodeAt(0)), contentType: 'image/png' };
+}
@@ -0,0 +1,330 @@
+/**
+ * Record and replay API calls as fixture files
+ */
+
+import type { FetchFunction } from '../client.js';
+import { AllscreenshotsError } from '../errors/index.js';
+import { stableStringify } from '../utils/cache.js';
+
+/**
+ * Whether the recorder calls the real API or serves recorded responses
+ */
+export type RecorderMode = 'record' | 'replay';
+
+/**
+ * Parts of a request compared when looking for a recorded response
+ */
+export type MatchField = 'method' | 'path' | 'query' | 'body';
+
+/**
+ * Request stored in a fixture file, with secrets redacted
+ */
+export interface FixtureRequest {
+  method: string;
+  /** URL path, without the base URL */
+  path: string;
+  query: Record<string, string>;
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+/**
+ * Response stored in a fixture file
+ */
+export interface FixtureResponse {
+  status: number;
+  headers: Record<string, string>;
+  /** Response body, as text or base64 depending on `encoding` */
+  body: string;
+  encoding: 'utf8' | 'base64';
+}
+
+/**
+ * Recorded request/response pair
+ */
+export interface FixtureInteraction {
+  request: FixtureRequest;
+  response: FixtureResponse;
+}
+
+/**
+ * Contents of a fixture file
+ */
+export interface FixtureFile {
+  version: 1;
+  interactions: FixtureInteraction[];
+}
+
+/**
+ * Configuration for a fixture recorder
+ */
+export interface FixtureRecorderOptions {
+  /** Fixture file to write in record mode and read in replay mode */
+  path: string;
+  /** Record real calls or replay recorded ones */
+  mode: RecorderMode;
+  /** Fetch used to call the API in record mode (default: global fetch) */
+  fetch?: FetchFunction;
+  /**
+   * How requests are matched to recordings: the fields to compare, or a custom predicate
+   * (default: ['method', 'path', 'query', 'body'])
+   */
+  match?: MatchField[] | ((request: FixtureRequest, recorded: FixtureRequest) => boolean);
+  /** Headers to redact, in addition to X-API-Key, Authorization, Cookie and Set-Cookie */
+  redactHeaders?: string[];
+  /** JSON body fields to redact at any depth, in addition to webhookSecret */
+  redactFields?: string[];
+}
+
+/**
+ * Error thrown in replay mode when a request has no recorded response
+ */
+export class FixtureNotFoundError extends AllscreenshotsError {
+  /** The unmatched request, with secrets redacted */
+  public readonly request: FixtureRequest;
+
+  constructor(message: string, request: FixtureRequest) {
+    super(message, undefined, 'FIXTURE_NOT_FOUND');
+    this.name = 'FixtureNotFoundError';
+    this.request = request;
+    Object.setPrototypeOf(this, FixtureNotFoundError.prototype);
+  }
+}
+
+const REDACTED = '[REDACTED]';
+const DEFAULT_REDACTED_HEADERS = ['x-api-key', 'authorization', 'cookie', 'set-cookie'];
+const DEFAULT_REDACTED_FIELDS = ['webhookSecret'];
+const DEFAULT_MATCH: MatchField[] = ['method', 'path', 'query', 'body'];
+/** Headers describing the wire encoding, which no longer applies once fetch has decoded the body */
+const TRANSPORT_HEADERS = new Set(['content-encoding', 'transfer-encoding']);
+
+/**
+ * VCR-style recorder for deterministic tests of code that uses the SDK
+ *
+ * Pass `recorder.fetch` as the client's `fetch`. In record mode every call goes to the
+ * real API and the request/response pair is appended to the fixture file, binary bodies
+ * included. In replay mode responses are served from the file without network access;
+ * each recording is used once, in order, so polling sequences replay faithfully. A request
+ * without a matching recording fails with a FixtureNotFoundError.
+ *
+ * API keys and other secrets are redacted before anything is written. Fixture files
+ * need `node:fs` (Node.js, Bun, Deno).
+ *
+ * @example
+ * ```typescript
+ * import { FixtureRecorder } from '@allscreenshots/sdk/testing';
+ *
+ * const recorder = new FixtureRecorder({
+ *   path: 'tests/fixtures/homepage.json',
+ *   mode: process.env.RECORD ? 'record' : 'replay',
+ * });
+ * const client = new AllscreenshotsClient({ apiKey: process.env.ALLSCREENSHOTS_API_KEY ?? 'replay', fetch: recorder.fetch });
+ * ```
+ */
+export class FixtureRecorder {
+  private readonly path: string;
+  private readonly mode: RecorderMode;
+  private readonly upstream?: FetchFunction;
+  private readonly matches: (request: FixtureRequest, recorded: FixtureRequest) => boolean;
+  private readonly redactedHeaders: Set<string>;
+  private readonly redactedFields: Set<string>;
+  private recorded: FixtureInteraction[] = [];
+  private loading?: Promise<FixtureInteraction[]>;
+  private readonly used = new Set<number>();
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(options: FixtureRecorderOptions) {
+    this.path = options.path;
+    this.mode = options.mode;
+    this.upstream = options.fetch;
+    this.redactedHeaders = new Set([...DEFAULT_REDACTED_HEADERS, ...(options.redactHeaders ?? [])].map((name) => name.toLowerCase()));
+    this.redactedFields = new Set([...DEFAULT_REDACTED_FIELDS, ...(options.redactFields ?? [])]);
+
+    const match = options.match ?? DEFAULT_MATCH;
+    this.matches = typeof match === 'function'
+      ? match
+      : (request, recorded) => match.every((field) => stableStringify(request[field]) === stableStringify(recorded[field]));
+  }
+
+  /**
+   * Fetch-compatible handler to pass to the client
+   */
+  readonly fetch = async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    const request = new Request(input, init);
+    const fixtureRequest = await this.toFixtureRequest(request.clone());
+    return this.mode === 'record'
+      ? this.record(request, fixtureRequest)
+      : this.replay(request.signal, fixtureRequest);
+  };
+
+  /**
+   * Interactions recorded in this session (record mode) or loaded from the fixture file (replay mode)
+   */
+  get interactions(): readonly FixtureInteraction[] {
+    return this.recorded;
+  }
+
+  /**
+   * Recordings that have not been replayed yet, e.g. to assert that a test made every expected call
+   */
+  get unused(): FixtureInteraction[] {
+    return this.recorded.filter((_, index) => !this.used.has(index));
+  }
+
+  private async record(request: Request, fixtureRequest: FixtureRequest): Promise<Response> {
+    const fetchImpl = this.upstream ?? globalThis.fetch;
+    const response = await fetchImpl(request);
+    const data = new Uint8Array(await response.arrayBuffer());
+
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      if (!TRANSPORT_HEADERS.has(name)) {
+        headers[name] = name === 'content-length' ? String(data.byteLength) : value;
+      }
+    });
+
+    const contentType = response.headers.get('Content-Type') ?? '';
+    const isText = /^(text\/|application\/(json|problem\+json))/i.test(contentType);
+    const body = isText ? this.redactJsonText(new TextDecoder().decode(data)) : toBase64(data);
+    this.recorded.push({
+      request: fixtureRequest,
+      response: { status: response.status, headers: this.redactHeaders(headers), body, encoding: isText ? 'utf8' : 'base64' },
+    });
+
+    // Writes are chained so concurrent calls cannot interleave them
+    const write = this.writing.then(() => this.save());
+    this.writing = write.catch(() => undefined);
+    await write;
+
+    // The caller gets the unredacted response
+    return new Response(response.status === 204 ? null : data, {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+    });
+  }
+
+  private async replay(signal: AbortSignal, request: FixtureRequest): Promise<Response> {
+    const interactions = await this.load();
+    if (signal.aborted) {
+      throw new DOMException('This operation was aborted', 'AbortError');
+    }
+
+    const index = interactions.findIndex((interaction, i) => !this.used.has(i) && this.matches(request, interaction.request));
+    if (index === -1) {
+      const body = request.body === undefined ? '' : ` with body ${stableStringify(request.body)}`;
+      const query = new URLSearchParams(request.query).toString();
+      throw new FixtureNotFoundError(
+        `No recorded response for ${request.method} ${request.path}${query ? `?${query}` : ''}${body} in ${this.path}. `
+          + 'Re-record the fixture with mode: \'record\' if the request is expected.',
+        request
+      );
+    }
+
+    this.used.add(index);
+    const { response } = interactions[index]!;
+    const data = response.encoding === 'base64' ? fromBase64(response.body) : new TextEncoder().encode(response.body);
+    return new Response(response.status === 204 ? null : data, { status: response.status, headers: response.headers });
+  }
+
+  private load(): Promise<FixtureInteraction[]> {
+    this.loading ??= (async () => {
+      const { readFile } = await import('node:fs/promises');
+      let text: string;
+      try {
+        text = await readFile(this.path, 'utf8');
+      } catch (error) {
+        if ((error as { code?: string }).code === 'ENOENT') {
+          throw new FixtureNotFoundError(
+            `Fixture file ${this.path} does not exist. Record it first with mode: 'record'.`,
+            { method: '', path: '', query: {}, headers: {} }
+          );
+        }
+        throw error;
+      }
+      this.recorded = (JSON.parse(text) as FixtureFile).interactions;
+      return this.recorded;
+    })();
+    return this.loading;
+  }
+
+  private async save(): Promise<void> {
+    const [{ mkdir, rename, rm, writeFile }, { dirname }] = await Promise.all([
+      import('node:fs/promises'),
+      import('node:path'),
+    ]);
+    const file: FixtureFile = { version: 1, interactions: this.recorded };
+    const tempPath = `${this.path}.${Math.random().toString(36).slice(2, 10)}.tmp`;
+
+    await mkdir(dirname(this.path), { recursive: true });
+    try {
+      await writeFile(tempPath, `${JSON.stringify(file, null, 2)}\n`);
+      await rename(tempPath, this.path);
+    } catch (error) {
+      await rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  private async toFixtureRequest(request: Request): Promise<FixtureRequest> {
+    const url = new URL(request.url);
+    const headers: Record<string, string> = {};
+    request.headers.forEach((value, name) => {
+      headers[name] = value;
+    });
+
+    const text = await request.text();
+    let body: unknown;
+    try {
+      body = text ? JSON.parse(text) : undefined;
+    } catch {
+      body = text;
+    }
+
+    return {
+      method: request.method,
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams),
+      headers: this.redactHeaders(headers),
+      body: this.redactFields(body),
+    };
+  }
+
+  private redactHeaders(headers: Record<string, string>): Record<string, string> {
+    return Object.fromEntries(
+      Object.entries(headers).map(([name, value]) => [name, this.redactedHeaders.has(name.toLowerCase()) ? REDACTED : value])
+    );
+  }
+
+  private redactFields(value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redactFields(item));
+    }
+    if (value === null || typeof value !== 'object') {
+      return value;
+    }
+    return Object.fromEntries(
+      Object.entries(value).map(([key, inner]) => [key, this.redactedFields.has(key) ? REDACTED : this.redactFields(inner)])
+    );
+  }
+
+  private redactJsonText(text: string): string {
+    try {
+      return JSON.stringify(this.redactFields(JSON.parse(text)));
+    } catch {
+      return text;
+    }
+  }
+}
+
+function toBase64(data: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < data.length; i += 0x8000) {
+    binary += String.fromCharCode(...data.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
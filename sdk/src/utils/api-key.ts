@@ -0,0 +1,156 @@
+/**
+ * API key providers and rotation
+ */
+
+import { AuthenticationError } from '../errors/index.js';
+
+/**
+ * Function returning the current API key, e.g. from a secrets manager
+ */
+export type ApiKeyProvider = () => string | Promise<string>;
+
+/**
+ * Configuration for an API key manager
+ */
+export interface ApiKeyManagerOptions {
+  /**
+   * How long a key returned by a provider, or a switch to a fallback key, lasts in milliseconds
+   * (default: until the key is rejected)
+   */
+  refreshIntervalMs?: number;
+  /** Keys to fall back to, in order, when the primary key is rejected */
+  fallbackKeys?: string[];
+}
+
+/**
+ * Resolves the API key for each request and rotates it when the API rejects it
+ *
+ * The primary key is either a fixed string or a provider function. Provider results
+ * are cached for `refreshIntervalMs` and concurrent lookups share one provider call.
+ * When a key is rejected, the provider is asked for a fresh key first, then the
+ * fallback keys are tried in order. With `refreshIntervalMs`, a fallback key is only
+ * used for that long before the primary key is tried again.
+ *
+ * @example
+ * ```typescript
+ * const keys = new ApiKeyManager(() => secrets.get('allscreenshots-api-key'), {
+ *   refreshIntervalMs: 15 * 60 * 1000,
+ *   fallbackKeys: [process.env.ALLSCREENSHOTS_PREVIOUS_KEY!],
+ * });
+ * const key = await keys.get();
+ * ```
+ */
+export class ApiKeyManager {
+  private readonly provider?: ApiKeyProvider;
+  private readonly refreshIntervalMs?: number;
+  private readonly fallbackKeys: string[];
+  private primaryKey?: string;
+  private fetchedAt = 0;
+  private pending?: Promise<string>;
+  /** 0 for the primary key, n for fallback key n - 1 */
+  private index = 0;
+  private fallbackSince = 0;
+
+  constructor(key: string | ApiKeyProvider, options: ApiKeyManagerOptions = {}) {
+    if (typeof key === 'function') {
+      this.provider = key;
+    } else {
+      this.primaryKey = key;
+    }
+    this.refreshIntervalMs = options.refreshIntervalMs;
+    this.fallbackKeys = (options.fallbackKeys ?? []).filter((fallback) => fallback !== '');
+  }
+
+  /**
+   * Total number of keys available, counting the primary key
+   */
+  get size(): number {
+    return 1 + this.fallbackKeys.length;
+  }
+
+  /**
+   * Key to use for the next request
+   *
+   * @throws AuthenticationError when the provider fails or returns an empty key
+   */
+  async get(): Promise<string> {
+    if (this.index > 0 && this.refreshIntervalMs !== undefined && Date.now() - this.fallbackSince >= this.refreshIntervalMs) {
+      // The rotation window may have ended, so the primary key is likely valid again
+      this.reset();
+    }
+    if (this.index > 0) {
+      return this.fallbackKeys[this.index - 1]!;
+    }
+    if (!this.provider) {
+      return this.primaryKey!;
+    }
+
+    const expired = this.refreshIntervalMs !== undefined && Date.now() - this.fetchedAt >= this.refreshIntervalMs;
+    if (this.primaryKey === undefined || expired) {
+      return this.fetch();
+    }
+    return this.primaryKey;
+  }
+
+  /**
+   * Report that the API rejected a key and get the key to try next
+   *
+   * @returns A different key to retry with, or undefined when every key has been tried
+   */
+  async rotate(rejectedKey: string): Promise<string | undefined> {
+    const current = await this.get().catch(() => undefined);
+    if (current !== undefined && current !== rejectedKey) {
+      // Another request already moved on to a new key
+      return current;
+    }
+
+    if (this.index === 0 && this.provider) {
+      const refreshed = await this.fetch().catch(() => undefined);
+      if (refreshed !== undefined && refreshed !== rejectedKey) {
+        return refreshed;
+      }
+    }
+
+    if (this.index < this.fallbackKeys.length) {
+      if (this.index === 0) {
+        this.fallbackSince = Date.now();
+      }
+      this.index++;
+      return this.fallbackKeys[this.index - 1];
+    }
+
+    // Every key was rejected; start over with the primary key on the next request
+    this.reset();
+    return undefined;
+  }
+
+  /**
+   * Go back to the primary key for the next request
+   */
+  reset(): void {
+    this.index = 0;
+  }
+
+  private fetch(): Promise<string> {
+    this.pending ??= (async () => {
+      try {
+        const key = await this.provider!();
+        if (!key) {
+          throw new AuthenticationError('API key provider returned an empty key');
+        }
+        this.primaryKey = key;
+        this.fetchedAt = Date.now();
+        return key;
+      } catch (error) {
+        if (error instanceof AuthenticationError) {
+          throw error;
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        throw new AuthenticationError(`API key provider failed: ${message}`);
+      } finally {
+        this.pending = undefined;
+      }
+    })();
+    return this.pending;
+  }
+}
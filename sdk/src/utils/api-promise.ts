@@ -0,0 +1,59 @@
+/**
+ * Promise returned by client methods
+ */
+
+import type { ApiResult } from './response.js';
+
+/**
+ * Promise for the data of an API call that can also expose the underlying response
+ *
+ * Awaiting it resolves with the parsed data as usual; `withResponse()` resolves with
+ * both the data and the response metadata (status, headers, request ID, rate limits).
+ *
+ * @example
+ * ```typescript
+ * const job = await client.getJob('job-id');
+ *
+ * const { data, response } = await client.getJob('job-id').withResponse();
+ * console.log(response.requestId, response.rateLimit.remaining);
+ * ```
+ */
+export class ApiPromise<T> extends Promise<T> {
+  private readonly resultPromise: Promise<ApiResult<T>>;
+  private dataPromise?: Promise<T>;
+
+  constructor(resultPromise: Promise<ApiResult<T>>) {
+    // The underlying promise is never observed: then/catch/finally delegate to the result
+    super((resolve) => resolve(null as T));
+    this.resultPromise = resultPromise;
+  }
+
+  /**
+   * Resolve with the data together with its response metadata
+   */
+  withResponse(): Promise<ApiResult<T>> {
+    return this.resultPromise;
+  }
+
+  private data(): Promise<T> {
+    this.dataPromise ??= this.resultPromise.then((result) => result.data);
+    return this.dataPromise;
+  }
+
+  override then<TResult1 = T, TResult2 = never>(
+    onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): Promise<TResult1 | TResult2> {
+    return this.data().then(onfulfilled, onrejected);
+  }
+
+  override catch<TResult = never>(
+    onrejected?: ((reason: unknown) => TResult | PromiseLike<TResult>) | null
+  ): Promise<T | TResult> {
+    return this.data().catch(onrejected);
+  }
+
+  override finally(onfinally?: (() => void) | null): Promise<T> {
+    return this.data().finally(onfinally);
+  }
+}
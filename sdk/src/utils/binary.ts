@@ -0,0 +1,77 @@
+/**
+ * Binary response handling
+ */
+
+import { hasBuffer } from './runtime.js';
+
+/**
+ * Representation used for binary (image/PDF) responses
+ *
+ * - `buffer`: Node.js Buffer (default where Buffer exists)
+ * - `uint8array`: Uint8Array (default in runtimes without Buffer)
+ * - `arraybuffer`: ArrayBuffer
+ * - `blob`: Blob carrying the response content type
+ */
+export type BinaryType = 'buffer' | 'uint8array' | 'arraybuffer' | 'blob';
+
+/**
+ * Data type returned for binary responses for a given binary type
+ */
+export type BinaryData<B extends BinaryType = 'buffer'> = {
+  buffer: Buffer;
+  uint8array: Uint8Array;
+  arraybuffer: ArrayBuffer;
+  blob: Blob;
+}[B];
+
+/**
+ * Binary type used when none is configured
+ */
+export function defaultBinaryType(): BinaryType {
+  return hasBuffer() ? 'buffer' : 'uint8array';
+}
+
+/**
+ * Copy binary data, keeping its type (Blobs are immutable and returned as is)
+ */
+export function copyBinaryData<T extends BinaryData<BinaryType>>(data: T): T {
+  if (data instanceof Blob) {
+    return data;
+  }
+  if (data instanceof ArrayBuffer) {
+    return data.slice(0) as T;
+  }
+  if (hasBuffer() && Buffer.isBuffer(data)) {
+    return Buffer.from(data) as T;
+  }
+  return data.slice() as T;
+}
+
+/**
+ * Copy binary data of any supported type into a new Uint8Array
+ */
+export async function toBytes(data: BinaryData<BinaryType>): Promise<Uint8Array> {
+  if (data instanceof Blob) {
+    return new Uint8Array(await data.arrayBuffer());
+  }
+  if (data instanceof ArrayBuffer) {
+    return new Uint8Array(data.slice(0));
+  }
+  return new Uint8Array(data);
+}
+
+/**
+ * Convert raw response bytes into the requested binary type
+ */
+export function toBinaryData(data: ArrayBuffer, type: BinaryType, contentType?: string): BinaryData<BinaryType> {
+  switch (type) {
+    case 'buffer':
+      return Buffer.from(data);
+    case 'uint8array':
+      return new Uint8Array(data);
+    case 'arraybuffer':
+      return data;
+    case 'blob':
+      return new Blob([data], contentType ? { type: contentType } : undefined);
+  }
+}
@@ -0,0 +1,305 @@
+/**
+ * Content-addressed screenshot cache
+ */
+
+import type { ScreenshotRequest } from '../models/index.js';
+
+/**
+ * Cached capture
+ */
+export interface CacheEntry {
+  /** Image or PDF bytes */
+  data: Uint8Array;
+  /** Content type of the capture */
+  contentType?: string;
+  /** When the entry was stored (epoch milliseconds) */
+  createdAt: number;
+  /** When the entry expires (epoch milliseconds); entries without it never expire */
+  expiresAt?: number;
+}
+
+/**
+ * Storage backend for the screenshot cache
+ *
+ * Implement this interface to keep captures in Redis, S3 or any other shared store.
+ * Stores may use `entry.expiresAt` to expire entries natively; the cache also checks
+ * it on every read.
+ *
+ * @example
+ * ```typescript
+ * const redisStore: CacheStore = {
+ *   async get(key) {
+ *     const value = await redis.getBuffer(key);
+ *     return value ? decodeEntry(value) : undefined;
+ *   },
+ *   async set(key, entry) {
+ *     await redis.set(key, encodeEntry(entry), 'PXAT', entry.expiresAt ?? Number.MAX_SAFE_INTEGER);
+ *   },
+ *   async delete(key) {
+ *     await redis.del(key);
+ *   },
+ * };
+ * ```
+ */
+export interface CacheStore {
+  /** Read an entry, resolving with undefined when absent */
+  get(key: string): Promise<CacheEntry | undefined>;
+  /** Store an entry, replacing any existing one */
+  set(key: string, entry: CacheEntry): Promise<void>;
+  /** Remove an entry */
+  delete(key: string): Promise<void>;
+  /** Remove every entry (optional) */
+  clear?(): Promise<void>;
+}
+
+/**
+ * Per-call cache behavior
+ *
+ * - `bypass`: neither read from nor write to the cache
+ * - `refresh`: skip the lookup, capture again and replace the cached entry
+ */
+export type CacheMode = 'bypass' | 'refresh';
+
+/**
+ * Cache hit/miss statistics
+ */
+export interface CacheStats {
+  /** Lookups served from the cache */
+  hits: number;
+  /** Lookups that required an API call */
+  misses: number;
+  /** Share of lookups served from the cache, between 0 and 1 */
+  hitRate: number;
+}
+
+/**
+ * Configuration for a screenshot cache
+ */
+export interface ScreenshotCacheOptions {
+  /** Storage backend (default: in-memory LRU store) */
+  store?: CacheStore;
+  /** Time to live in milliseconds (default: entries never expire) */
+  ttlMs?: number;
+  /**
+   * Hex digest used for cache keys (default: SHA-256 through Web Crypto)
+   *
+   * Node.js 18 has no global Web Crypto; pass `sha256` from `@allscreenshots/sdk/node` there.
+   */
+  hash?: (input: string) => Promise<string>;
+}
+
+/**
+ * Configuration for an in-memory cache store
+ */
+export interface MemoryCacheStoreOptions {
+  /** Maximum number of entries (default: 100) */
+  maxEntries?: number;
+  /** Maximum total size of all entries in bytes (default: unlimited) */
+  maxBytes?: number;
+}
+
+/**
+ * In-memory store evicting the least recently used entries
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly maxEntries: number;
+  private readonly maxBytes: number;
+  private readonly entries = new Map<string, CacheEntry>();
+  private totalBytes = 0;
+
+  constructor(options: MemoryCacheStoreOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 100;
+    this.maxBytes = options.maxBytes ?? Infinity;
+  }
+
+  /**
+   * Number of entries in the store
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Move to the most recently used position
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    await this.delete(key);
+    if (entry.data.byteLength > this.maxBytes) {
+      return;
+    }
+    this.entries.set(key, entry);
+    this.totalBytes += entry.data.byteLength;
+
+    for (const [oldestKey] of this.entries) {
+      if (this.entries.size <= this.maxEntries && this.totalBytes <= this.maxBytes) {
+        break;
+      }
+      await this.delete(oldestKey);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.totalBytes -= entry.data.byteLength;
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+    this.totalBytes = 0;
+  }
+}
+
+/**
+ * Serialize a value to JSON with object keys sorted and undefined values dropped
+ */
+export function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, inner: unknown) => {
+    if (inner === null || typeof inner !== 'object' || Array.isArray(inner)) {
+      return inner;
+    }
+    return Object.fromEntries(
+      Object.entries(inner)
+        .filter(([, entryValue]) => entryValue !== undefined)
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    );
+  });
+}
+
+/**
+ * SHA-256 digest of a string, as lowercase hex
+ */
+async function sha256(input: string): Promise<string> {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    throw new TypeError("Web Crypto is not available; pass a cache hash such as sha256 from '@allscreenshots/sdk/node'");
+  }
+  const digest = await subtle.digest('SHA-256', new TextEncoder().encode(input));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Cache of screenshot captures keyed by a hash of the normalized request
+ *
+ * Identical requests (regardless of key order or undefined fields) map to the same
+ * entry, so repeated captures are served without calling the API or using quota.
+ * A single instance can be shared by several clients.
+ *
+ * @example
+ * ```typescript
+ * const cache = new ScreenshotCache({
+ *   store: new FileSystemCacheStore({ directory: '.screenshot-cache' }),
+ *   ttlMs: 24 * 60 * 60 * 1000,
+ * });
+ * const client = new AllscreenshotsClient({ cache });
+ * console.log(cache.stats); // { hits, misses, hitRate }
+ * ```
+ */
+export class ScreenshotCache {
+  private readonly store: CacheStore;
+  private readonly ttlMs?: number;
+  private readonly hash: (input: string) => Promise<string>;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(options: ScreenshotCacheOptions = {}) {
+    this.store = options.store ?? new MemoryCacheStore();
+    this.ttlMs = options.ttlMs;
+    this.hash = options.hash ?? sha256;
+  }
+
+  /**
+   * Cache key for a screenshot request
+   *
+   * @param request - Screenshot configuration
+   * @param hash - Hex digest to use (default: SHA-256 through Web Crypto)
+   */
+  static async key(request: ScreenshotRequest, hash: (input: string) => Promise<string> = sha256): Promise<string> {
+    return `screenshot-${await hash(stableStringify(request))}`;
+  }
+
+  /**
+   * Hit/miss statistics since creation or the last `resetStats()`
+   */
+  get stats(): CacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups === 0 ? 0 : this.hits / lookups,
+    };
+  }
+
+  /**
+   * Look up a capture, counting a hit or a miss
+   *
+   * Store failures are treated as misses so that an unavailable cache never fails a capture.
+   */
+  async get(request: ScreenshotRequest): Promise<CacheEntry | undefined> {
+    const key = await ScreenshotCache.key(request, this.hash);
+    let entry: CacheEntry | undefined;
+    try {
+      entry = await this.store.get(key);
+    } catch {
+      entry = undefined;
+    }
+
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      await this.store.delete(key).catch(() => undefined);
+      entry = undefined;
+    }
+
+    if (entry) {
+      this.hits++;
+    } else {
+      this.misses++;
+    }
+    return entry;
+  }
+
+  /**
+   * Store a capture; store failures are ignored
+   */
+  async set(request: ScreenshotRequest, data: Uint8Array, contentType?: string): Promise<void> {
+    const key = await ScreenshotCache.key(request, this.hash);
+    const createdAt = Date.now();
+    const entry: CacheEntry = {
+      data,
+      contentType,
+      createdAt,
+      expiresAt: this.ttlMs !== undefined ? createdAt + this.ttlMs : undefined,
+    };
+    await this.store.set(key, entry).catch(() => undefined);
+  }
+
+  /**
+   * Remove the capture for a request
+   */
+  async delete(request: ScreenshotRequest): Promise<void> {
+    await this.store.delete(await ScreenshotCache.key(request, this.hash));
+  }
+
+  /**
+   * Remove every capture, if the store supports it
+   */
+  async clear(): Promise<void> {
+    await this.store.clear?.();
+  }
+
+  /**
+   * Reset hit/miss statistics
+   */
+  resetStats(): void {
+    this.hits = 0;
+    this.misses = 0;
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * Circuit breaker to fail fast while the API is unavailable
+ */
+
+import { AbortError, CircuitOpenError, RateLimitError } from '../errors/index.js';
+import { isRetryableError } from './retry.js';
+
+/**
+ * Circuit breaker states
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Event emitted whenever the circuit changes state
+ */
+export interface CircuitStateChange {
+  /** Previous state */
+  from: CircuitState;
+  /** New state */
+  to: CircuitState;
+  /** Consecutive failures recorded when the change happened */
+  failures: number;
+  /** Time of the change (epoch milliseconds) */
+  timestamp: number;
+}
+
+/**
+ * Configuration for a circuit breaker
+ */
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit (default: 5) */
+  failureThreshold?: number;
+  /** How long the circuit stays open before probing, in milliseconds (default: 30000) */
+  openDurationMs?: number;
+  /** Probe requests allowed at once while half-open (default: 1) */
+  halfOpenMaxRequests?: number;
+  /** Successful probes needed to close the circuit again (default: 1) */
+  successThreshold?: number;
+  /** Decide whether an error counts as a failure (default: retryable errors other than rate limits) */
+  isFailure?: (error: unknown) => boolean;
+  /** Called on every state change */
+  onStateChange?: (change: CircuitStateChange) => void;
+}
+
+/**
+ * Default failure predicate: outages (server, network and timeout errors), not rate limits
+ */
+function defaultIsFailure(error: unknown): boolean {
+  return isRetryableError(error) && !(error instanceof RateLimitError);
+}
+
+/**
+ * Circuit breaker guarding calls to the API
+ *
+ * After `failureThreshold` consecutive failures the circuit opens and calls fail
+ * immediately with a CircuitOpenError. Once `openDurationMs` has passed, a limited
+ * number of probe calls are let through: success closes the circuit, failure
+ * opens it again.
+ *
+ * @example
+ * ```typescript
+ * const breaker = new CircuitBreaker({
+ *   failureThreshold: 5,
+ *   openDurationMs: 30000,
+ *   onStateChange: ({ from, to }) => alert(`Allscreenshots circuit ${from} -> ${to}`),
+ * });
+ * const client = new AllscreenshotsClient({ circuitBreaker: breaker });
+ * ```
+ */
+export class CircuitBreaker {
+  private readonly failureThreshold: number;
+  private readonly openDurationMs: number;
+  private readonly halfOpenMaxRequests: number;
+  private readonly successThreshold: number;
+  private readonly isFailure: (error: unknown) => boolean;
+  private readonly listeners = new Set<(change: CircuitStateChange) => void>();
+  private currentState: CircuitState = 'closed';
+  private failures = 0;
+  private halfOpenSuccesses = 0;
+  private halfOpenInFlight = 0;
+  private openedAt = 0;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.openDurationMs = options.openDurationMs ?? 30000;
+    this.halfOpenMaxRequests = options.halfOpenMaxRequests ?? 1;
+    this.successThreshold = options.successThreshold ?? 1;
+    this.isFailure = options.isFailure ?? defaultIsFailure;
+    if (options.onStateChange) {
+      this.listeners.add(options.onStateChange);
+    }
+  }
+
+  /**
+   * Current state, moving from open to half-open once the open period has passed
+   */
+  get state(): CircuitState {
+    if (this.currentState === 'open' && Date.now() - this.openedAt >= this.openDurationMs) {
+      this.transition('half-open');
+    }
+    return this.currentState;
+  }
+
+  /**
+   * Subscribe to state changes
+   *
+   * @returns Function that removes the listener
+   */
+  onStateChange(listener: (change: CircuitStateChange) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Run a function through the breaker
+   *
+   * @throws CircuitOpenError when the circuit is open or all half-open probes are in use
+   */
+  async execute<T>(fn: () => Promise<T>): Promise<T> {
+    const state = this.state;
+    if (state === 'open' || (state === 'half-open' && this.halfOpenInFlight >= this.halfOpenMaxRequests)) {
+      throw new CircuitOpenError(
+        'Circuit breaker is open; the API is failing and requests are rejected until it recovers',
+        Math.max(0, this.openedAt + this.openDurationMs - Date.now())
+      );
+    }
+
+    const probe = state === 'half-open';
+    if (probe) {
+      this.halfOpenInFlight++;
+    }
+
+    try {
+      const result = await fn();
+      this.recordSuccess();
+      return result;
+    } catch (error) {
+      if (!(error instanceof AbortError)) {
+        if (this.isFailure(error)) {
+          this.recordFailure();
+        } else {
+          // The API answered, so it is reachable even if the request itself was rejected
+          this.recordSuccess();
+        }
+      }
+      throw error;
+    } finally {
+      if (probe) {
+        this.halfOpenInFlight--;
+      }
+    }
+  }
+
+  /**
+   * Close the circuit and clear all counters
+   */
+  reset(): void {
+    this.failures = 0;
+    this.transition('closed');
+  }
+
+  private recordSuccess(): void {
+    this.failures = 0;
+    if (this.currentState === 'half-open') {
+      this.halfOpenSuccesses++;
+      if (this.halfOpenSuccesses >= this.successThreshold) {
+        this.transition('closed');
+      }
+    }
+  }
+
+  private recordFailure(): void {
+    this.failures++;
+    if (this.currentState === 'half-open' || this.failures >= this.failureThreshold) {
+      this.openedAt = Date.now();
+      this.transition('open');
+    }
+  }
+
+  private transition(to: CircuitState): void {
+    const from = this.currentState;
+    if (from === to) {
+      return;
+    }
+    this.currentState = to;
+    this.halfOpenSuccesses = 0;
+
+    const change: CircuitStateChange = { from, to, failures: this.failures, timestamp: Date.now() };
+    for (const listener of this.listeners) {
+      listener(change);
+    }
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * In-flight request coalescing
+ */
+
+import { AbortError } from '../errors/index.js';
+
+/**
+ * Options for a coalesced call
+ */
+export interface CoalesceRunOptions<T> {
+  /** Signal to stop waiting; the shared call is only cancelled once every caller has aborted */
+  signal?: AbortSignal;
+  /** Derive the value handed to callers that joined an existing call (e.g. copy mutable data) */
+  share?: (value: T) => T;
+}
+
+interface InFlight {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiters: number;
+  settled: boolean;
+}
+
+/**
+ * Shares a single pending call between concurrent callers using the same key
+ *
+ * @example
+ * ```typescript
+ * const coalescer = new RequestCoalescer();
+ * const [a, b] = await Promise.all([
+ *   coalescer.run('job-1', (signal) => fetchJob('job-1', signal)),
+ *   coalescer.run('job-1', (signal) => fetchJob('job-1', signal)), // joins the first call
+ * ]);
+ * ```
+ */
+export class RequestCoalescer {
+  private readonly inFlight = new Map<string, InFlight>();
+
+  /**
+   * Number of distinct calls currently in flight
+   */
+  get size(): number {
+    return this.inFlight.size;
+  }
+
+  /**
+   * Run `fn`, or join the pending call with the same key
+   *
+   * `fn` receives a signal that aborts once every caller waiting on the call has aborted.
+   * A caller whose own signal aborts rejects with an AbortError without affecting the others.
+   */
+  run<T>(key: string, fn: (signal: AbortSignal) => Promise<T>, options: CoalesceRunOptions<T> = {}): Promise<T> {
+    const { signal, share } = options;
+    if (signal?.aborted) {
+      return Promise.reject(new AbortError());
+    }
+
+    let entry = this.inFlight.get(key);
+    const joined = entry !== undefined;
+    if (!entry) {
+      entry = this.start(key, fn);
+    }
+    const call = entry;
+    call.waiters++;
+
+    return new Promise<T>((resolve, reject) => {
+      let done = false;
+      const leave = () => {
+        done = true;
+        signal?.removeEventListener('abort', onAbort);
+        call.waiters--;
+      };
+      const onAbort = () => {
+        if (done) {
+          return;
+        }
+        leave();
+        if (call.waiters === 0 && !call.settled) {
+          // Nobody is waiting anymore: cancel the call and let the next caller start a new one
+          this.forget(key, call);
+          call.controller.abort();
+        }
+        reject(new AbortError());
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      (call.promise as Promise<T>).then(
+        (value) => {
+          if (!done) {
+            leave();
+            resolve(joined && share ? share(value) : value);
+          }
+        },
+        (error: unknown) => {
+          if (!done) {
+            leave();
+            reject(error);
+          }
+        }
+      );
+    });
+  }
+
+  private start<T>(key: string, fn: (signal: AbortSignal) => Promise<T>): InFlight {
+    const controller = new AbortController();
+    const call: InFlight = { promise: Promise.resolve(), controller, waiters: 0, settled: false };
+    call.promise = new Promise<T>((run) => run(fn(controller.signal))).finally(() => {
+      call.settled = true;
+      this.forget(key, call);
+    });
+    // Callers observe the result; this only prevents unhandled rejections after all of them left
+    call.promise.catch(() => undefined);
+    this.inFlight.set(key, call);
+    return call;
+  }
+
+  private forget(key: string, call: InFlight): void {
+    if (this.inFlight.get(key) === call) {
+      this.inFlight.delete(key);
+    }
+  }
+}
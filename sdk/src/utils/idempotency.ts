@@ -0,0 +1,21 @@
+/**
+ * Idempotency key generation
+ */
+
+/**
+ * Generate a random idempotency key (UUID v4)
+ *
+ * Uses the Web Crypto API when available and falls back to Math.random otherwise.
+ */
+export function generateIdempotencyKey(): string {
+  const crypto = globalThis.crypto;
+  if (typeof crypto?.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (char) => {
+    const random = (Math.random() * 16) | 0;
+    const value = char === 'x' ? random : (random & 0x3) | 0x8;
+    return value.toString(16);
+  });
+}
@@ -3,3 +3,19 @@
  */
 
 export * from './retry.js';
+export * from './middleware.js';
+export * from './idempotency.js';
+export * from './response.js';
+export * from './api-promise.js';
+export * from './rate-limiter.js';
+export * from './request-queue.js';
+export * from './circuit-breaker.js';
+export * from './retry-budget.js';
+export * from './runtime.js';
+export * from './binary.js';
+export * from './stream.js';
+export * from './cache.js';
+export * from './coalescer.js';
+export * from './api-key.js';
+export * from './network.js';
+export * from './poll.js';
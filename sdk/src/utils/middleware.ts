@@ -0,0 +1,86 @@
+/**
+ * Request/response middleware pipeline
+ */
+
+/**
+ * Query parameters for an API request
+ */
+export type QueryParams = Record<string, string | number | boolean | undefined>;
+
+/**
+ * Outgoing request as seen by middleware
+ */
+export interface RequestContext {
+  /** HTTP method */
+  method: string;
+  /** API path (e.g. '/v1/screenshots') */
+  path: string;
+  /** Query parameters */
+  query?: QueryParams;
+  /** Request body before JSON serialization */
+  body?: unknown;
+  /** Final request URL, including query parameters */
+  url: string;
+  /** Request headers */
+  headers: Record<string, string>;
+  /** Whether a binary (image/PDF) response is expected */
+  binary: boolean;
+  /** Whether a successful binary response is returned as a ReadableStream instead of being buffered */
+  stream?: boolean;
+  /** Attempt number, starting at 1 and incremented on every retry */
+  attempt: number;
+  /** Timeout in milliseconds for this attempt */
+  timeout: number;
+  /** Caller's abort signal, if any */
+  signal?: AbortSignal;
+  /** Client and per-call tags, for logging and usage attribution */
+  tags?: Record<string, string>;
+}
+
+/**
+ * Response as seen by middleware
+ *
+ * Non-2xx responses flow back through the chain like any other response and are
+ * only converted into an `AllscreenshotsError` once the chain has completed.
+ */
+export interface ResponseContext {
+  /** HTTP status code */
+  status: number;
+  /** Response headers */
+  headers: Headers;
+  /** Parsed body: JSON value, binary data, error text, or null when empty */
+  body: unknown;
+}
+
+/**
+ * Invokes the rest of the chain
+ */
+export type NextFunction = (context: RequestContext) => Promise<ResponseContext>;
+
+/**
+ * Middleware wrapping every request attempt
+ *
+ * Call `next(context)` to continue the chain, or return a response without calling it
+ * to short-circuit the request.
+ *
+ * @example
+ * ```typescript
+ * const correlationId: Middleware = async (context, next) => {
+ *   context.headers['X-Correlation-Id'] = crypto.randomUUID();
+ *   const response = await next(context);
+ *   console.log(context.method, context.url, response.status);
+ *   return response;
+ * };
+ * ```
+ */
+export type Middleware = (context: RequestContext, next: NextFunction) => Promise<ResponseContext>;
+
+/**
+ * Compose middleware around a handler, the first middleware being the outermost
+ */
+export function composeMiddleware(middleware: readonly Middleware[], handler: NextFunction): NextFunction {
+  return middleware.reduceRight<NextFunction>(
+    (next, current) => (context) => current(context, next),
+    handler
+  );
+}
@@ -0,0 +1,106 @@
+/**
+ * Classification of fetch failures into network error kinds
+ */
+
+import { NetworkError, type NetworkErrorKind } from '../errors/index.js';
+
+/**
+ * Phase of the request in which fetch failed
+ */
+export type NetworkPhase = 'request' | 'body';
+
+interface ErrorDetails {
+  message?: unknown;
+  code?: unknown;
+  cause?: unknown;
+  errors?: unknown;
+}
+
+/** Error codes of Node.js and undici, found on the error or its cause */
+const KINDS_BY_CODE: Record<string, NetworkErrorKind> = {
+  ENOTFOUND: 'dns',
+  EAI_AGAIN: 'dns',
+  ECONNREFUSED: 'connection_refused',
+  ETIMEDOUT: 'connection_timeout',
+  UND_ERR_CONNECT_TIMEOUT: 'connection_timeout',
+  ECONNRESET: 'connection_reset',
+  ECONNABORTED: 'connection_reset',
+  EPIPE: 'connection_reset',
+  UND_ERR_SOCKET: 'connection_reset',
+  EPROTO: 'tls',
+};
+
+const TLS_CODE = /^(CERT_|ERR_TLS_|ERR_SSL_)|SELF_SIGNED|UNABLE_TO_(GET|VERIFY)_|HOSTNAME_MISMATCH/;
+
+/** Messages of runtimes that do not set error codes (Deno, Bun), checked in order */
+const KINDS_BY_MESSAGE: Array<[RegExp, NetworkErrorKind]> = [
+  [/certificate|\btls\b|\bssl\b/i, 'tls'],
+  [/dns error|getaddrinfo|name resolution|name not resolved/i, 'dns'],
+  [/connection refused/i, 'connection_refused'],
+  [/connect(ion)? timeout|timed out/i, 'connection_timeout'],
+  [/connection reset|socket hang up|other side closed|broken pipe|connection closed/i, 'connection_reset'],
+];
+
+/**
+ * Errors in the cause chain, outermost first
+ *
+ * Follows `cause` and the first entry of an AggregateError, which Node.js throws when
+ * every address of a host refused the connection.
+ */
+function causeChain(error: unknown): ErrorDetails[] {
+  const chain: ErrorDetails[] = [];
+  let current = error;
+  while (current !== null && typeof current === 'object' && !chain.includes(current) && chain.length < 10) {
+    const details = current as ErrorDetails;
+    chain.push(details);
+    current = details.cause ?? (Array.isArray(details.errors) ? details.errors[0] : undefined);
+  }
+  return chain;
+}
+
+/**
+ * Determine the kind of a fetch failure from error codes, falling back to messages
+ */
+export function classifyNetworkError(error: unknown, phase: NetworkPhase = 'request'): NetworkErrorKind {
+  // Once the response has arrived, any failure interrupted reading the body
+  if (phase === 'body') {
+    return 'body_interrupted';
+  }
+
+  const chain = causeChain(error);
+  for (const { code } of chain) {
+    if (typeof code !== 'string') {
+      continue;
+    }
+    const kind = KINDS_BY_CODE[code] ?? (TLS_CODE.test(code) ? 'tls' : undefined);
+    if (kind) {
+      return kind;
+    }
+  }
+
+  const messages = chain.map(({ message }) => message).filter((message) => typeof message === 'string');
+  for (const [pattern, kind] of KINDS_BY_MESSAGE) {
+    if (messages.some((message) => pattern.test(message))) {
+      return kind;
+    }
+  }
+  return 'unknown';
+}
+
+/**
+ * Wrap a fetch failure in a NetworkError that keeps the original error as its cause
+ *
+ * The message includes the messages of nested causes, since undici only says "fetch failed"
+ * on the outer error.
+ */
+export function toNetworkError(error: unknown, phase: NetworkPhase = 'request'): NetworkError {
+  const kind = classifyNetworkError(error, phase);
+  const messages = causeChain(error)
+    .map(({ message }) => message)
+    .filter((message): message is string => typeof message === 'string' && message !== '');
+
+  if (messages.length === 0) {
+    return new NetworkError('Unknown network error occurred', kind, error);
+  }
+  return new NetworkError(`Network error: ${messages.join(': ')}`, kind, error);
+}
@@ -0,0 +1,92 @@
+/**
+ * Polling with backoff, an overall timeout and cancellation
+ */
+
+import { AbortError, TimeoutError } from '../errors/index.js';
+import { sleep } from './retry.js';
+
+/**
+ * How often and how long to poll
+ */
+export interface PollOptions {
+  /** Delay before the second poll in milliseconds (default: 1000) */
+  pollInterval?: number;
+  /** Factor the delay grows by after every poll; 1 polls at a fixed interval (default: 1.5) */
+  backoff?: number;
+  /** Upper bound for the delay between polls in milliseconds (default: 10000) */
+  maxPollInterval?: number;
+  /** Give up after this many milliseconds with a `TimeoutError`; 0 waits indefinitely (default: 300000) */
+  timeout?: number;
+  /** Signal to stop waiting; an aborted wait rejects with `AbortError` */
+  signal?: AbortSignal;
+}
+
+/**
+ * Default polling settings
+ */
+export const DEFAULT_POLL_OPTIONS: Required<Omit<PollOptions, 'signal'>> = {
+  pollInterval: 1000,
+  backoff: 1.5,
+  maxPollInterval: 10000,
+  timeout: 300000,
+};
+
+/**
+ * Hooks into a polling loop
+ */
+export interface PollHooks<T> {
+  /** Called with the value of every poll, including the final one */
+  onPoll?: (value: T) => void;
+  /** Called once when waiting is aborted or times out, before the error is thrown */
+  onStop?: () => Promise<unknown>;
+}
+
+/**
+ * Call `check` until `isDone` accepts its value, waiting longer between calls each time
+ *
+ * `check` receives a signal that is aborted when the caller's signal is aborted or the
+ * overall timeout expires, so a poll in flight is cancelled as well.
+ */
+export async function pollUntil<T>(
+  check: (signal: AbortSignal) => Promise<T>,
+  isDone: (value: T) => boolean,
+  options: PollOptions = {},
+  hooks: PollHooks<T> = {}
+): Promise<T> {
+  const { pollInterval, backoff, maxPollInterval, timeout } = { ...DEFAULT_POLL_OPTIONS, ...options };
+  const { signal } = options;
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const timeoutId = timeout > 0
+    ? setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeout)
+    : undefined;
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    if (signal?.aborted) {
+      throw new AbortError();
+    }
+    for (let delay = pollInterval; ; delay = Math.min(delay * backoff, maxPollInterval)) {
+      const value = await check(controller.signal);
+      hooks.onPoll?.(value);
+      if (isDone(value)) {
+        return value;
+      }
+      await sleep(delay, controller.signal);
+    }
+  } catch (error) {
+    if (!controller.signal.aborted && !signal?.aborted) {
+      throw error;
+    }
+    await hooks.onStop?.();
+    throw timedOut ? new TimeoutError(`Gave up waiting after ${timeout}ms`) : new AbortError();
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * Client-side rate limiting
+ */
+
+import { AbortError } from '../errors/index.js';
+
+/**
+ * Configuration for a rate limiter
+ */
+export interface RateLimiterOptions {
+  /** Number of requests allowed per interval */
+  requestsPerInterval: number;
+  /** Interval length in milliseconds (default: 1000) */
+  intervalMs?: number;
+  /** Maximum number of requests that may be sent in a burst (default: requestsPerInterval) */
+  burst?: number;
+}
+
+/**
+ * Rate-limit state reported by the server
+ */
+export interface RateLimitState {
+  /** Requests remaining in the current window */
+  remaining?: number;
+  /** Window reset, as Unix timestamp in seconds or as seconds from now */
+  reset?: number;
+  /** Seconds to wait before sending another request */
+  retryAfter?: number;
+}
+
+interface Waiter {
+  resolve: () => void;
+  reject: (error: unknown) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+/**
+ * Values above this are treated as Unix timestamps rather than relative seconds
+ */
+const UNIX_TIMESTAMP_THRESHOLD = 1_000_000_000;
+
+/**
+ * Token-bucket rate limiter that queues requests instead of failing them
+ *
+ * A single instance can be shared by several clients using the same API key.
+ * The limiter also adapts to the rate-limit headers returned by the API: it
+ * pauses until the window resets when no requests remain, and honors Retry-After.
+ *
+ * @example
+ * ```typescript
+ * const limiter = new RateLimiter({ requestsPerInterval: 10, intervalMs: 1000 });
+ *
+ * const clientA = new AllscreenshotsClient({ apiKey, rateLimiter: limiter });
+ * const clientB = new AllscreenshotsClient({ apiKey, rateLimiter: limiter });
+ * ```
+ */
+export class RateLimiter {
+  private readonly capacity: number;
+  private readonly refillPerMs: number;
+  private tokens: number;
+  private lastRefill: number;
+  private pausedUntil = 0;
+  private readonly waiters: Waiter[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(options: RateLimiterOptions) {
+    if (!(options.requestsPerInterval > 0)) {
+      throw new RangeError('requestsPerInterval must be greater than 0');
+    }
+    const intervalMs = options.intervalMs ?? 1000;
+    this.capacity = Math.max(1, options.burst ?? options.requestsPerInterval);
+    this.refillPerMs = options.requestsPerInterval / intervalMs;
+    this.tokens = this.capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Number of requests waiting for a slot
+   */
+  get pending(): number {
+    return this.waiters.length;
+  }
+
+  /**
+   * Wait until a request may be sent
+   *
+   * Rejects with an AbortError if the signal is aborted while waiting.
+   */
+  acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(new AbortError());
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const waiter: Waiter = { resolve, reject, signal };
+      if (signal) {
+        waiter.onAbort = () => {
+          const index = this.waiters.indexOf(waiter);
+          if (index !== -1) {
+            this.waiters.splice(index, 1);
+            reject(new AbortError());
+          }
+        };
+        signal.addEventListener('abort', waiter.onAbort, { once: true });
+      }
+      this.waiters.push(waiter);
+      this.process();
+    });
+  }
+
+  /**
+   * Adjust the limiter to the rate-limit state reported by the server
+   */
+  update(state: RateLimitState): void {
+    const now = Date.now();
+
+    if (state.retryAfter !== undefined && state.retryAfter > 0) {
+      this.pauseUntil(now + state.retryAfter * 1000);
+    }
+
+    if (state.remaining !== undefined) {
+      this.refill(now);
+      this.tokens = Math.min(this.tokens, Math.max(0, state.remaining));
+
+      if (state.remaining <= 0 && state.reset !== undefined) {
+        const resetAt = state.reset > UNIX_TIMESTAMP_THRESHOLD
+          ? state.reset * 1000
+          : now + state.reset * 1000;
+        this.pauseUntil(resetAt);
+        // A new window starts with a full bucket
+        this.tokens = 0;
+        this.lastRefill = Math.max(now, resetAt) - this.capacity / this.refillPerMs;
+      }
+    }
+
+    this.process();
+  }
+
+  /**
+   * Stop handing out slots until the given time (epoch milliseconds)
+   */
+  private pauseUntil(time: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, time);
+  }
+
+  private refill(now: number): void {
+    const elapsed = now - this.lastRefill;
+    if (elapsed > 0) {
+      this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.refillPerMs);
+      this.lastRefill = now;
+    }
+  }
+
+  private process(): void {
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    const now = Date.now();
+    if (now >= this.pausedUntil) {
+      this.refill(now);
+      while (this.waiters.length > 0 && this.tokens >= 1) {
+        const waiter = this.waiters.shift()!;
+        this.tokens -= 1;
+        if (waiter.onAbort) {
+          waiter.signal?.removeEventListener('abort', waiter.onAbort);
+        }
+        waiter.resolve();
+      }
+    }
+
+    if (this.waiters.length > 0) {
+      const waitForPause = this.pausedUntil - now;
+      const waitForToken = (1 - this.tokens) / this.refillPerMs;
+      const delay = Math.max(waitForPause, waitForToken, 1);
+      this.timer = setTimeout(() => this.process(), Math.ceil(delay));
+    }
+  }
+}
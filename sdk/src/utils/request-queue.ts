@@ -0,0 +1,172 @@
+/**
+ * Concurrency-limited priority queue
+ */
+
+import { AbortError } from '../errors/index.js';
+
+/**
+ * Options for a queued task
+ */
+export interface QueueTaskOptions {
+  /** Higher priorities start first; tasks with equal priority run in insertion order (default: 0) */
+  priority?: number;
+  /** Signal to remove the task from the queue before it starts */
+  signal?: AbortSignal;
+}
+
+/**
+ * Snapshot of queue activity
+ */
+export interface QueueStats {
+  /** Tasks waiting for a slot */
+  pending: number;
+  /** Tasks currently running */
+  active: number;
+  /** Tasks that finished successfully */
+  completed: number;
+  /** Tasks that finished with an error */
+  failed: number;
+}
+
+interface QueuedTask {
+  priority: number;
+  start: () => void;
+  cancel: () => void;
+}
+
+/**
+ * Queue that runs at most `concurrency` tasks at a time, highest priority first
+ *
+ * @example
+ * ```typescript
+ * const queue = new RequestQueue(4);
+ * const result = await queue.add(() => fetchSomething(), { priority: 10 });
+ * await queue.onIdle();
+ * ```
+ */
+export class RequestQueue {
+  private readonly concurrency: number;
+  private readonly tasks: QueuedTask[] = [];
+  private active = 0;
+  private completed = 0;
+  private failed = 0;
+  private drainListeners: Array<() => void> = [];
+  private idleListeners: Array<() => void> = [];
+
+  constructor(concurrency: number) {
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new RangeError('concurrency must be a positive integer');
+    }
+    this.concurrency = concurrency;
+  }
+
+  /**
+   * Current queue statistics
+   */
+  get stats(): QueueStats {
+    return {
+      pending: this.tasks.length,
+      active: this.active,
+      completed: this.completed,
+      failed: this.failed,
+    };
+  }
+
+  /**
+   * Add a task to the queue and resolve with its result
+   *
+   * Rejects with an AbortError if the signal aborts before the task starts.
+   */
+  add<T>(task: () => Promise<T>, options: QueueTaskOptions = {}): Promise<T> {
+    const { signal } = options;
+    if (signal?.aborted) {
+      return Promise.reject(new AbortError());
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        const index = this.tasks.indexOf(queued);
+        if (index !== -1) {
+          this.tasks.splice(index, 1);
+          queued.cancel();
+          this.notify();
+        }
+      };
+
+      const queued: QueuedTask = {
+        priority: options.priority ?? 0,
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          this.active++;
+          new Promise<T>((run) => run(task())).then(
+            (value) => {
+              this.completed++;
+              resolve(value);
+            },
+            (error: unknown) => {
+              this.failed++;
+              reject(error);
+            }
+          ).finally(() => {
+            this.active--;
+            this.next();
+          });
+        },
+        cancel: () => reject(new AbortError()),
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.enqueue(queued);
+      this.next();
+    });
+  }
+
+  /**
+   * Resolve once every queued task has started
+   */
+  drain(): Promise<void> {
+    if (this.tasks.length === 0) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.drainListeners.push(resolve));
+  }
+
+  /**
+   * Resolve once no tasks are queued or running
+   */
+  onIdle(): Promise<void> {
+    if (this.tasks.length === 0 && this.active === 0) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.idleListeners.push(resolve));
+  }
+
+  private enqueue(task: QueuedTask): void {
+    // Insert after every task with the same or a higher priority
+    let index = this.tasks.length;
+    while (index > 0 && this.tasks[index - 1]!.priority < task.priority) {
+      index--;
+    }
+    this.tasks.splice(index, 0, task);
+  }
+
+  private next(): void {
+    while (this.active < this.concurrency && this.tasks.length > 0) {
+      this.tasks.shift()!.start();
+    }
+    this.notify();
+  }
+
+  private notify(): void {
+    if (this.tasks.length === 0 && this.drainListeners.length > 0) {
+      const listeners = this.drainListeners;
+      this.drainListeners = [];
+      listeners.forEach((listener) => listener());
+    }
+    if (this.tasks.length === 0 && this.active === 0 && this.idleListeners.length > 0) {
+      const listeners = this.idleListeners;
+      this.idleListeners = [];
+      listeners.forEach((listener) => listener());
+    }
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * HTTP response metadata
+ */
+
+/**
+ * Rate-limit state reported by the API
+ */
+export interface RateLimitInfo {
+  /** Requests allowed in the current window (X-RateLimit-Limit) */
+  limit?: number;
+  /** Requests remaining in the current window (X-RateLimit-Remaining) */
+  remaining?: number;
+  /** When the window resets, as sent by the API (X-RateLimit-Reset) */
+  reset?: number;
+}
+
+/**
+ * Metadata of the HTTP response behind a result or error
+ */
+export interface ResponseMetadata {
+  /** HTTP status code */
+  status: number;
+  /** Raw response headers */
+  headers: Headers;
+  /** Request identifier assigned by the API (X-Request-Id), useful for support requests */
+  requestId?: string;
+  /** Rate-limit headers */
+  rateLimit: RateLimitInfo;
+  /** Response content type */
+  contentType?: string;
+  /** Number of attempts made, including the final one; 0 when served from the cache */
+  attempts: number;
+  /** Whether the data was served from the screenshot cache */
+  cached?: boolean;
+}
+
+/**
+ * Result of a client call together with its response metadata
+ */
+export interface ApiResult<T> {
+  /** Parsed response data */
+  data: T;
+  /** Response metadata */
+  response: ResponseMetadata;
+}
+
+/**
+ * Parse a numeric header, returning undefined when absent or malformed
+ */
+function parseNumericHeader(headers: Headers, name: string): number | undefined {
+  const value = headers.get(name);
+  if (value === null || value.trim() === '') {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Extract response metadata from a status code and headers
+ */
+export function parseResponseMetadata(status: number, headers: Headers, attempts: number): ResponseMetadata {
+  return {
+    status,
+    headers,
+    requestId: headers.get('X-Request-Id') ?? undefined,
+    rateLimit: {
+      limit: parseNumericHeader(headers, 'X-RateLimit-Limit'),
+      remaining: parseNumericHeader(headers, 'X-RateLimit-Remaining'),
+      reset: parseNumericHeader(headers, 'X-RateLimit-Reset'),
+    },
+    contentType: headers.get('Content-Type') ?? undefined,
+    attempts,
+  };
+}
@@ -0,0 +1,67 @@
+/**
+ * Retry budget shared across requests
+ */
+
+/**
+ * Configuration for a retry budget
+ */
+export interface RetryBudgetOptions {
+  /** Maximum number of retries allowed within the window */
+  maxRetries: number;
+  /** Sliding window length in milliseconds (default: 60000) */
+  windowMs?: number;
+}
+
+/**
+ * Caps the number of retries across all requests sharing the budget
+ *
+ * Individual requests keep their own `maxRetries`, but once the shared budget is
+ * spent, failing requests are no longer retried until older retries leave the
+ * sliding window. This keeps a struggling API from being flooded with retries.
+ *
+ * @example
+ * ```typescript
+ * const budget = new RetryBudget({ maxRetries: 50, windowMs: 60000 });
+ * const client = new AllscreenshotsClient({ retry: { budget } });
+ * ```
+ */
+export class RetryBudget {
+  private readonly maxRetries: number;
+  private readonly windowMs: number;
+  private retries: number[] = [];
+
+  constructor(options: RetryBudgetOptions) {
+    this.maxRetries = options.maxRetries;
+    this.windowMs = options.windowMs ?? 60000;
+  }
+
+  /**
+   * Number of retries still available in the current window
+   */
+  get remaining(): number {
+    this.prune(Date.now());
+    return Math.max(0, this.maxRetries - this.retries.length);
+  }
+
+  /**
+   * Spend one retry from the budget
+   *
+   * @returns Whether a retry was available
+   */
+  tryAcquire(): boolean {
+    const now = Date.now();
+    this.prune(now);
+    if (this.retries.length >= this.maxRetries) {
+      return false;
+    }
+    this.retries.push(now);
+    return true;
+  }
+
+  private prune(now: number): void {
+    const cutoff = now - this.windowMs;
+    if (this.retries.length > 0 && this.retries[0]! <= cutoff) {
+      this.retries = this.retries.filter((time) => time > cutoff);
+    }
+  }
+}
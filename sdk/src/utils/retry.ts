@@ -2,7 +2,22 @@
  * Retry utility with exponential backoff
  */
 
-import { RateLimitError, ServerError, NetworkError, TimeoutError } from '../errors/index.js';
+import { AbortError, RateLimitError, isAllscreenshotsError } from '../errors/index.js';
+import type { RetryBudget } from './retry-budget.js';
+
+/**
+ * Information passed to the onRetry hook before waiting for the next attempt
+ */
+export interface RetryInfo {
+  /** Error that caused the retry */
+  error: unknown;
+  /** Number of the attempt that failed, starting at 1 */
+  attempt: number;
+  /** Delay before the next attempt in milliseconds */
+  delayMs: number;
+  /** Time spent since the first attempt started, in milliseconds */
+  elapsedMs: number;
+}
 
 /**
  * Configuration for retry behavior
@@ -18,6 +33,16 @@ export interface RetryConfig {
   backoffMultiplier: number;
   /** Jitter factor (0-1) to randomize delays */
   jitterFactor: number;
+  /** Decide whether an error should be retried (default: isRetryableError) */
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+  /** Called before waiting for each retry */
+  onRetry?: (info: RetryInfo) => void;
+  /** Stop retrying when the next attempt would start after this many milliseconds */
+  maxElapsedMs?: number;
+  /** Give up instead of waiting when Retry-After asks for longer than this many milliseconds */
+  maxRetryAfterMs?: number;
+  /** Retry budget shared with other requests */
+  budget?: RetryBudget;
 }
 
 /**
@@ -47,31 +72,62 @@ export function calculateDelay(attempt: number, config: RetryConfig): number {
  * Check if an error is retryable
  */
 export function isRetryableError(error: unknown): boolean {
-  if (error instanceof RateLimitError) {
-    return true;
-  }
-  if (error instanceof ServerError) {
-    return true;
+  return isAllscreenshotsError(error) && error.isRetryable;
+}
+
+/**
+ * Parse a Retry-After header value into seconds
+ *
+ * Accepts both forms allowed by RFC 9110: a number of seconds or an HTTP date.
+ * Returns undefined when the value is missing or cannot be parsed.
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
   }
-  if (error instanceof NetworkError) {
-    return true;
+
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Number(trimmed);
   }
-  if (error instanceof TimeoutError) {
-    return true;
+
+  // HTTP dates always spell out the day and month, e.g. 'Wed, 21 Oct 2015 07:28:00 GMT'
+  const date = /[a-z]/i.test(trimmed) ? Date.parse(trimmed) : NaN;
+  if (Number.isNaN(date)) {
+    return undefined;
   }
-  return false;
+  return Math.max(0, (date - now) / 1000);
 }
 
 /**
  * Sleep for a given number of milliseconds
+ *
+ * Rejects with an AbortError as soon as the optional signal is aborted.
  */
-export function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new AbortError());
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
 
 /**
  * Execute a function with retry logic
  *
+ * The function receives the attempt number, starting at 1. Waiting between
+ * attempts stops early when the optional signal is aborted.
+ *
  * @example
  * ```typescript
  * const result = await withRetry(
@@ -81,19 +137,22 @@ export function sleep(ms: number): Promise<void> {
  * ```
  */
 export async function withRetry<T>(
-  fn: () => Promise<T>,
-  config: Partial<RetryConfig> = {}
+  fn: (attempt: number) => Promise<T>,
+  config: Partial<RetryConfig> = {},
+  signal?: AbortSignal
 ): Promise<T> {
   const fullConfig: RetryConfig = { ...DEFAULT_RETRY_CONFIG, ...config };
+  const shouldRetry = fullConfig.shouldRetry ?? isRetryableError;
+  const startedAt = Date.now();
   let lastError: unknown;
 
   for (let attempt = 0; attempt <= fullConfig.maxRetries; attempt++) {
     try {
-      return await fn();
+      return await fn(attempt + 1);
     } catch (error) {
       lastError = error;
 
-      if (attempt >= fullConfig.maxRetries || !isRetryableError(error)) {
+      if (attempt >= fullConfig.maxRetries || !shouldRetry(error, attempt + 1)) {
         throw error;
       }
 
@@ -101,11 +160,25 @@ export async function withRetry<T>(
       let delay: number;
       if (error instanceof RateLimitError && error.retryAfter) {
         delay = error.retryAfter * 1000;
+        if (fullConfig.maxRetryAfterMs !== undefined && delay > fullConfig.maxRetryAfterMs) {
+          throw error;
+        }
       } else {
         delay = calculateDelay(attempt, fullConfig);
       }
 
-      await sleep(delay);
+      const elapsedMs = Date.now() - startedAt;
+      if (fullConfig.maxElapsedMs !== undefined && elapsedMs + delay > fullConfig.maxElapsedMs) {
+        throw error;
+      }
+
+      if (fullConfig.budget && !fullConfig.budget.tryAcquire()) {
+        throw error;
+      }
+
+      fullConfig.onRetry?.({ error, attempt: attempt + 1, delayMs: delay, elapsedMs });
+
+      await sleep(delay, signal);
     }
   }
 
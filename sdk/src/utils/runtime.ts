@@ -0,0 +1,35 @@
+/**
+ * Runtime detection helpers for Node.js, Deno, Bun, browsers and edge workers
+ */
+
+interface RuntimeGlobals {
+  process?: { env?: Record<string, string | undefined> };
+  Deno?: { env?: { get(name: string): string | undefined } };
+}
+
+/**
+ * Read an environment variable without assuming a Node.js-style `process` global
+ *
+ * Returns undefined in runtimes without environment access (browsers, workers)
+ * and when access is denied (Deno without --allow-env).
+ */
+export function getEnv(name: string): string | undefined {
+  const runtime = globalThis as RuntimeGlobals;
+
+  try {
+    const fromProcess = runtime.process?.env?.[name];
+    if (fromProcess !== undefined) {
+      return fromProcess;
+    }
+    return runtime.Deno?.env?.get(name);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Whether the Node.js Buffer class is available
+ */
+export function hasBuffer(): boolean {
+  return typeof globalThis.Buffer === 'function';
+}
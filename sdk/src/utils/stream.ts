@@ -0,0 +1,118 @@
+/**
+ * Streaming helpers for binary responses
+ */
+
+import { AbortError, AllscreenshotsError, TimeoutError } from '../errors/index.js';
+import { toNetworkError } from './network.js';
+
+/**
+ * Download progress reported while a binary response is received
+ */
+export interface DownloadProgress {
+  /** Bytes received so far */
+  bytesReceived: number;
+  /** Total size from the Content-Length header, when the server sends it */
+  totalBytes?: number;
+}
+
+/**
+ * Total body size from a Content-Length header
+ */
+export function parseContentLength(headers: Headers): number | undefined {
+  const value = headers.get('Content-Length');
+  if (value === null) {
+    return undefined;
+  }
+  const length = Number(value);
+  return Number.isInteger(length) && length >= 0 ? length : undefined;
+}
+
+/**
+ * Pass a stream through unchanged, reporting progress for every chunk
+ */
+export function trackProgress(
+  stream: ReadableStream<Uint8Array>,
+  onProgress: (progress: DownloadProgress) => void,
+  totalBytes?: number
+): ReadableStream<Uint8Array> {
+  let bytesReceived = 0;
+  return stream.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      bytesReceived += chunk.byteLength;
+      onProgress({ bytesReceived, totalBytes });
+      controller.enqueue(chunk);
+    },
+  }));
+}
+
+/**
+ * Options for `guardBody()`
+ */
+export interface GuardBodyOptions {
+  /** Longest wait in milliseconds for the next chunk while the stream is being read */
+  idleTimeout: number;
+  /** Caller's signal; aborting it cancels the body */
+  signal?: AbortSignal;
+}
+
+/**
+ * Wrap a response body so that failures while reading it surface as SDK errors
+ *
+ * Read failures become a `NetworkError` of kind `body_interrupted`, an abort of the caller's
+ * signal becomes an `AbortError`, and waiting longer than `idleTimeout` for the next chunk
+ * cancels the body with a `TimeoutError`. A consumer that stops reading is never timed out.
+ */
+export function guardBody(body: ReadableStream<Uint8Array>, options: GuardBodyOptions): ReadableStream<Uint8Array> {
+  const { idleTimeout, signal } = options;
+  const reader = body.getReader();
+  let output!: ReadableStreamDefaultController<Uint8Array>;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let stopped = false;
+
+  const stop = (error?: AllscreenshotsError) => {
+    if (stopped) {
+      return;
+    }
+    stopped = true;
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+    if (error) {
+      output.error(error);
+      reader.cancel(error).catch(() => undefined);
+    }
+  };
+  const onAbort = () => stop(new AbortError());
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      output = controller;
+      if (signal?.aborted) {
+        onAbort();
+      } else {
+        signal?.addEventListener('abort', onAbort, { once: true });
+      }
+    },
+    async pull(controller) {
+      timer = setTimeout(() => stop(new TimeoutError(`No response data received for ${idleTimeout}ms`)), idleTimeout);
+      try {
+        const { done, value } = await reader.read();
+        clearTimeout(timer);
+        if (stopped) {
+          return;
+        }
+        if (done) {
+          stop();
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        stop(error instanceof AllscreenshotsError ? error : toNetworkError(error, 'body'));
+      }
+    },
+    cancel(reason) {
+      stop();
+      return reader.cancel(reason);
+    },
+  });
+}
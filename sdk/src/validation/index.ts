@@ -0,0 +1,3 @@
+export * from './schema.js';
+export * from './responses.js';
+export * from './requests.js';
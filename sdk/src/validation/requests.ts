@@ -0,0 +1,109 @@
+/**
+ * Client-side validators for API requests
+ *
+ * These mirror the constraints documented on the request models, so obviously invalid
+ * requests can be rejected without a network round-trip. The API remains the authority;
+ * a request passing these checks can still be rejected.
+ */
+
+import {
+  allOf,
+  array,
+  object,
+  optional,
+  range,
+  text,
+  validator,
+  type Schema,
+} from './schema.js';
+
+const httpUrl: Schema = (value, path, issues) => {
+  text()(value, path, issues);
+  if (typeof value === 'string' && value !== '' && !/^https?:\/\//i.test(value)) {
+    issues.push({ path, message: 'must start with http:// or https://' });
+  }
+};
+
+const viewport = object({
+  width: optional(range(100, 4096, { integer: true })),
+  height: optional(range(100, 4096, { integer: true })),
+  deviceScaleFactor: optional(range(1, 3)),
+});
+
+/** Constrained fields shared by every set of capture options */
+const captureOptions = {
+  viewport: optional(viewport),
+  quality: optional(range(1, 100, { integer: true })),
+  delay: optional(range(0, 30000, { integer: true })),
+  timeout: optional(range(1000, 60000, { integer: true })),
+};
+
+const screenshotRequest = object({
+  url: httpUrl,
+  ...captureOptions,
+});
+
+const bulkRequest = object({
+  urls: array(object({
+    url: httpUrl,
+    options: optional(object(captureOptions)),
+  }), { min: 1, max: 100 }),
+  defaults: optional(object(captureOptions)),
+});
+
+const composeSources: Schema = (value, _path, issues) => {
+  const request = value as { captures?: unknown; url?: unknown; variants?: unknown } | null;
+  if (!request || typeof request !== 'object') {
+    return;
+  }
+  if (request.captures === undefined && request.variants === undefined) {
+    issues.push({ path: 'captures', message: 'provide captures, or a url with variants' });
+  }
+  if (request.variants !== undefined) {
+    httpUrl(request.url, 'url', issues);
+  }
+};
+
+const composeRequest = allOf(
+  object({
+    captures: optional(array(object({
+      url: httpUrl,
+      viewport: optional(viewport),
+      delay: optional(range(0, 30000, { integer: true })),
+    }), { min: 1, max: 20 })),
+    variants: optional(array(object({
+      viewport: optional(viewport),
+      delay: optional(range(0, 30000, { integer: true })),
+    }), { min: 1, max: 20 })),
+    defaults: optional(object(captureOptions)),
+    output: optional(object({
+      quality: optional(range(1, 100, { integer: true })),
+    })),
+  }),
+  composeSources
+);
+
+const scheduleFields = {
+  options: optional(object(captureOptions)),
+  retentionDays: optional(range(1, 365, { integer: true })),
+};
+
+const createScheduleRequest = object({
+  name: text(255),
+  url: httpUrl,
+  schedule: text(),
+  ...scheduleFields,
+});
+
+const updateScheduleRequest = object({
+  name: optional(text(255)),
+  url: optional(httpUrl),
+  schedule: optional(text()),
+  ...scheduleFields,
+});
+
+export const validateScreenshotRequest = validator(screenshotRequest);
+export const validateBulkRequest = validator(bulkRequest);
+export const validateComposeRequest = validator(composeRequest);
+export const validateCreateScheduleRequest = validator(createScheduleRequest);
+export const validateUpdateScheduleRequest = validator(updateScheduleRequest);
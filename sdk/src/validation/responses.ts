@@ -0,0 +1,266 @@
+/**
+ * Runtime validators for API response models
+ *
+ * Each validator checks the fields declared by its model and returns the issues found.
+ * Fields not declared by the model are ignored, so additive API changes never fail validation.
+ */
+
+import {
+  array,
+  number,
+  object,
+  oneOf,
+  optional,
+  record,
+  string,
+  validator,
+  type Schema,
+  type Validator,
+} from './schema.js';
+
+const jobStatus = oneOf(['QUEUED', 'PROCESSING', 'COMPLETED', 'FAILED', 'CANCELLED']);
+
+const asyncJobCreatedResponse = object({
+  id: string,
+  status: jobStatus,
+  statusUrl: string,
+  createdAt: string,
+});
+
+const jobResponse = object({
+  id: string,
+  status: jobStatus,
+  url: string,
+  resultUrl: optional(string),
+  errorCode: optional(string),
+  errorMessage: optional(string),
+  createdAt: string,
+  startedAt: optional(string),
+  completedAt: optional(string),
+  expiresAt: optional(string),
+  metadata: optional(record),
+});
+
+const bulkJobFields = {
+  id: string,
+  status: string,
+  totalJobs: number,
+  completedJobs: number,
+  failedJobs: number,
+  progress: number,
+  createdAt: string,
+  completedAt: optional(string),
+};
+
+const bulkJobSummary = object(bulkJobFields);
+
+const bulkResponse = object({
+  ...bulkJobFields,
+  jobs: array(object({
+    id: string,
+    url: string,
+    status: string,
+  })),
+});
+
+const bulkStatusResponse = object({
+  ...bulkJobFields,
+  jobs: array(object({
+    id: string,
+    url: string,
+    status: string,
+    resultUrl: optional(string),
+    storageUrl: optional(string),
+    format: optional(string),
+    width: optional(number),
+    height: optional(number),
+    fileSize: optional(number),
+    renderTimeMs: optional(number),
+    errorCode: optional(string),
+    errorMessage: optional(string),
+    createdAt: string,
+    completedAt: optional(string),
+  })),
+});
+
+const composeResponse = object({
+  url: string,
+  storageUrl: optional(string),
+  expiresAt: optional(string),
+  width: number,
+  height: number,
+  format: string,
+  fileSize: number,
+  renderTimeMs: number,
+  layout: string,
+  metadata: optional(object({
+    captures: array(object({
+      id: optional(string),
+      url: string,
+      label: optional(string),
+      width: number,
+      height: number,
+    })),
+    totalCaptures: number,
+  })),
+});
+
+const composeJobStatusResponse = object({
+  jobId: string,
+  status: string,
+  progress: number,
+  totalCaptures: number,
+  completedCaptures: number,
+  result: optional(composeResponse),
+  errorCode: optional(string),
+  errorMessage: optional(string),
+  createdAt: string,
+  completedAt: optional(string),
+});
+
+const composeJobSummaryResponse = object({
+  jobId: string,
+  status: string,
+  totalCaptures: number,
+  completedCaptures: number,
+  failedCaptures: number,
+  progress: number,
+  layoutType: optional(string),
+  createdAt: string,
+  completedAt: optional(string),
+});
+
+const layoutPreviewResponse = object({
+  layout: string,
+  resolvedLayout: string,
+  canvasWidth: number,
+  canvasHeight: number,
+  placements: array(object({
+    index: number,
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    label: optional(string),
+  })),
+  metadata: optional(record),
+});
+
+const scheduleResponse = object({
+  id: string,
+  name: string,
+  url: string,
+  schedule: string,
+  scheduleDescription: optional(string),
+  timezone: string,
+  status: string,
+  options: optional(record),
+  webhookUrl: optional(string),
+  retentionDays: optional(number),
+  startsAt: optional(string),
+  endsAt: optional(string),
+  lastExecutedAt: optional(string),
+  nextExecutionAt: optional(string),
+  executionCount: number,
+  successCount: number,
+  failureCount: number,
+  createdAt: string,
+  updatedAt: string,
+});
+
+const scheduleListResponse = object({
+  schedules: array(scheduleResponse),
+  total: number,
+});
+
+const scheduleHistoryResponse = object({
+  scheduleId: string,
+  totalExecutions: number,
+  executions: array(object({
+    id: string,
+    executedAt: string,
+    status: string,
+    resultUrl: optional(string),
+    storageUrl: optional(string),
+    fileSize: optional(number),
+    renderTimeMs: optional(number),
+    errorCode: optional(string),
+    errorMessage: optional(string),
+    expiresAt: optional(string),
+  })),
+});
+
+const quotaDetail = object({
+  limit: number,
+  used: number,
+  remaining: number,
+  percentUsed: number,
+});
+
+const bandwidthQuota = object({
+  limitBytes: number,
+  limitFormatted: string,
+  usedBytes: number,
+  usedFormatted: string,
+  remainingBytes: number,
+  remainingFormatted: string,
+  percentUsed: number,
+});
+
+const periodUsage = object({
+  periodStart: string,
+  periodEnd: string,
+  screenshotsCount: number,
+  bandwidthBytes: number,
+  bandwidthFormatted: string,
+});
+
+const usageResponse = object({
+  tier: string,
+  currentPeriod: periodUsage,
+  quota: object({
+    screenshots: quotaDetail,
+    bandwidth: optional(bandwidthQuota),
+  }),
+  history: array(periodUsage),
+  totals: object({
+    screenshotsCount: number,
+    bandwidthBytes: number,
+    bandwidthFormatted: string,
+  }),
+});
+
+const quotaStatusResponse = object({
+  tier: string,
+  screenshots: quotaDetail,
+  bandwidth: bandwidthQuota,
+  periodEnds: string,
+});
+
+export const validateAsyncJobCreatedResponse = validator(asyncJobCreatedResponse);
+export const validateJobResponse = validator(jobResponse);
+export const validateBulkResponse = validator(bulkResponse);
+export const validateBulkJobSummary = validator(bulkJobSummary);
+export const validateBulkStatusResponse = validator(bulkStatusResponse);
+export const validateComposeResponse = validator(composeResponse);
+export const validateComposeJobStatusResponse = validator(composeJobStatusResponse);
+export const validateComposeJobSummaryResponse = validator(composeJobSummaryResponse);
+export const validateLayoutPreviewResponse = validator(layoutPreviewResponse);
+export const validateScheduleResponse = validator(scheduleResponse);
+export const validateScheduleListResponse = validator(scheduleListResponse);
+export const validateScheduleHistoryResponse = validator(scheduleHistoryResponse);
+export const validateUsageResponse = validator(usageResponse);
+export const validateQuotaStatusResponse = validator(quotaStatusResponse);
+
+/**
+ * Validator for a list of models
+ */
+export function validateListOf(item: Validator): Validator {
+  const schema: Schema = (value, path, issues) => {
+    for (const issue of item(value)) {
+      const separator = issue.path === '' || issue.path.startsWith('[') ? '' : '.';
+      issues.push({ path: `${path}${separator}${issue.path}`, message: issue.message });
+    }
+  };
+  return validator(array(schema));
+}
@@ -0,0 +1,164 @@
+/**
+ * Minimal schema helpers for runtime validation
+ */
+
+/**
+ * A problem found while validating a value
+ */
+export interface ValidationIssue {
+  /** Path to the offending field, e.g. `jobs[0].status`; empty for the value itself */
+  path: string;
+  /** What is wrong with the field */
+  message: string;
+}
+
+/**
+ * Validator for a whole value, returning every issue found (empty when valid)
+ */
+export type Validator = (value: unknown) => ValidationIssue[];
+
+/**
+ * Checks a value at a path and records issues
+ */
+export type Schema = (value: unknown, path: string, issues: ValidationIssue[]) => void;
+
+/**
+ * Turn a schema into a validator
+ */
+export function validator(schema: Schema): Validator {
+  return (value) => {
+    const issues: ValidationIssue[] = [];
+    schema(value, '', issues);
+    return issues;
+  };
+}
+
+/**
+ * Describe a value's type for error messages
+ */
+export function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+const expected = (type: string): Schema => (value, path, issues) => {
+  issues.push({ path, message: `expected ${type}, got ${describeType(value)}` });
+};
+
+export const string: Schema = (value, path, issues) => {
+  if (typeof value !== 'string') expected('string')(value, path, issues);
+};
+
+export const number: Schema = (value, path, issues) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) expected('number')(value, path, issues);
+};
+
+export const boolean: Schema = (value, path, issues) => {
+  if (typeof value !== 'boolean') expected('boolean')(value, path, issues);
+};
+
+/**
+ * Plain object with any values
+ */
+export const record: Schema = (value, path, issues) => {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) expected('object')(value, path, issues);
+};
+
+/**
+ * One of a fixed set of string values
+ */
+export function oneOf(values: readonly string[]): Schema {
+  return (value, path, issues) => {
+    if (typeof value !== 'string' || !values.includes(value)) {
+      issues.push({
+        path,
+        message: `expected one of ${values.map((v) => `'${v}'`).join(', ')}, got ${typeof value === 'string' ? `'${value}'` : describeType(value)}`,
+      });
+    }
+  };
+}
+
+/**
+ * Field that may be missing; `null` is accepted too, as JSON APIs use it for absent values
+ */
+export function optional(schema: Schema): Schema {
+  return (value, path, issues) => {
+    if (value !== undefined && value !== null) schema(value, path, issues);
+  };
+}
+
+/**
+ * Array whose items all match a schema, optionally with a minimum and maximum length
+ */
+export function array(items: Schema, length: { min?: number; max?: number } = {}): Schema {
+  return (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      expected('array')(value, path, issues);
+      return;
+    }
+    if (length.min !== undefined && value.length < length.min) {
+      issues.push({ path, message: `must contain at least ${length.min} item${length.min === 1 ? '' : 's'}` });
+    }
+    if (length.max !== undefined && value.length > length.max) {
+      issues.push({ path, message: `must contain at most ${length.max} items` });
+    }
+    value.forEach((item, index) => items(item, `${path}[${index}]`, issues));
+  };
+}
+
+/**
+ * Number within an inclusive range
+ */
+export function range(min: number, max: number, options: { integer?: boolean } = {}): Schema {
+  return (value, path, issues) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      expected('number')(value, path, issues);
+    } else if (value < min || value > max || (options.integer && !Number.isInteger(value))) {
+      issues.push({ path, message: `must be ${options.integer ? 'an integer ' : ''}between ${min} and ${max}` });
+    }
+  };
+}
+
+/**
+ * Non-empty string of at most `max` characters
+ */
+export function text(max = Infinity): Schema {
+  return (value, path, issues) => {
+    if (value === undefined || value === null) {
+      issues.push({ path, message: 'is required' });
+    } else if (value === '') {
+      issues.push({ path, message: 'must not be empty' });
+    } else if (typeof value !== 'string') {
+      expected('string')(value, path, issues);
+    } else if (value.length > max) {
+      issues.push({ path, message: `must be at most ${max} characters` });
+    }
+  };
+}
+
+/**
+ * Run several schemas against the same value
+ */
+export function allOf(...schemas: Schema[]): Schema {
+  return (value, path, issues) => {
+    for (const schema of schemas) {
+      schema(value, path, issues);
+    }
+  };
+}
+
+/**
+ * Object with the given fields; unknown fields are allowed
+ */
+export function object(shape: Record<string, Schema>): Schema {
+  return (value, path, issues) => {
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+      expected('object')(value, path, issues);
+      return;
+    }
+    for (const [key, schema] of Object.entries(shape)) {
+      schema((value as Record<string, unknown>)[key], path ? `${path}.${key}` : key, issues);
+    }
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * Fetch responses for unit tests that mock `fetch` directly
+ *
+ * The body is recreated on every read, so a mock may return the same response for
+ * any number of calls (e.g. with `mockResolvedValue`).
+ */
+
+/** First bytes of a PNG file */
+export const PNG_BYTES = [0x89, 0x50, 0x4e, 0x47];
+
+const mockResponse = (chunks: Uint8Array[], status: number, headers: Record<string, string>): Response => {
+  const body = () => new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(chunk.slice()));
+      controller.close();
+    },
+  });
+  // Built without Response so that tests can run with Buffer stubbed out, as in edge workers
+  const bytes = () => {
+    const data = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.byteLength, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+      data.set(chunk, offset);
+      offset += chunk.byteLength;
+    }
+    return data;
+  };
+  const text = () => new TextDecoder().decode(bytes());
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    headers: new Headers(headers),
+    get body() {
+      return body();
+    },
+    text: () => Promise.resolve(text()),
+    json: () => Promise.resolve(JSON.parse(text())),
+    arrayBuffer: () => Promise.resolve(bytes().buffer),
+  } as Response;
+};
+
+/**
+ * JSON response with the given status
+ */
+export const jsonResponse = (status: number, body: unknown, headers: Record<string, string> = {}): Response =>
+  mockResponse([new TextEncoder().encode(JSON.stringify(body))], status, { 'Content-Type': 'application/json', ...headers });
+
+/**
+ * Successful image response; nested arrays are sent as separate body chunks
+ */
+export const imageResponse = (bytes: number[] | number[][] = PNG_BYTES, headers: Record<string, string> = {}): Response => {
+  const chunks = bytes.every((chunk) => Array.isArray(chunk)) ? bytes as number[][] : [bytes as number[]];
+  return mockResponse(chunks.map((chunk) => new Uint8Array(chunk)), 200, { 'Content-Type': 'image/png', ...headers });
+};
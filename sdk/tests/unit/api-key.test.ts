@@ -0,0 +1,181 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ApiKeyManager, AllscreenshotsClient, AuthenticationError } from '../../src/index.js';
+import { jsonResponse } from '../helpers/responses.js';
+
+const keyOf = (mockFetch: ReturnType<typeof vi.fn>, call: number) =>
+  (mockFetch.mock.calls[call]![1] as RequestInit & { headers: Record<string, string> }).headers['X-API-Key'];
+
+describe('ApiKeyManager', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should return a static key', async () => {
+    await expect(new ApiKeyManager('static-key').get()).resolves.toBe('static-key');
+  });
+
+  it('should cache provider results and share concurrent lookups', async () => {
+    const provider = vi.fn().mockResolvedValue('provided-key');
+    const keys = new ApiKeyManager(provider);
+
+    const results = await Promise.all([keys.get(), keys.get()]);
+    await keys.get();
+
+    expect(results).toEqual(['provided-key', 'provided-key']);
+    expect(provider).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refresh provider results after the refresh interval', async () => {
+    vi.useFakeTimers();
+    const provider = vi.fn().mockReturnValueOnce('key-1').mockReturnValueOnce('key-2');
+    const keys = new ApiKeyManager(provider, { refreshIntervalMs: 1000 });
+
+    await expect(keys.get()).resolves.toBe('key-1');
+    vi.advanceTimersByTime(999);
+    await expect(keys.get()).resolves.toBe('key-1');
+    vi.advanceTimersByTime(1);
+    await expect(keys.get()).resolves.toBe('key-2');
+  });
+
+  it('should wrap provider failures in AuthenticationError', async () => {
+    const failing = new ApiKeyManager(() => Promise.reject(new Error('vault sealed')));
+    const empty = new ApiKeyManager(() => '');
+
+    await expect(failing.get()).rejects.toThrow('API key provider failed: vault sealed');
+    await expect(empty.get()).rejects.toThrow(AuthenticationError);
+  });
+
+  it('should rotate through a refreshed key, then the fallback keys', async () => {
+    const provider = vi.fn().mockReturnValueOnce('old').mockReturnValueOnce('new').mockReturnValue('new');
+    const keys = new ApiKeyManager(provider, { fallbackKeys: ['fallback-1', 'fallback-2'] });
+
+    await expect(keys.get()).resolves.toBe('old');
+    await expect(keys.rotate('old')).resolves.toBe('new');
+    await expect(keys.rotate('new')).resolves.toBe('fallback-1');
+    await expect(keys.get()).resolves.toBe('fallback-1');
+    await expect(keys.rotate('fallback-1')).resolves.toBe('fallback-2');
+    await expect(keys.rotate('fallback-2')).resolves.toBeUndefined();
+    await expect(keys.get()).resolves.toBe('new');
+  });
+
+  it('should go back to the primary key once the refresh interval has passed', async () => {
+    vi.useFakeTimers();
+    const provider = vi.fn().mockReturnValueOnce('new-bad').mockReturnValueOnce('new-bad').mockReturnValue('new-good');
+    const keys = new ApiKeyManager(provider, { refreshIntervalMs: 10, fallbackKeys: ['old'] });
+
+    await expect(keys.get()).resolves.toBe('new-bad');
+    await expect(keys.rotate('new-bad')).resolves.toBe('old');
+    vi.advanceTimersByTime(9);
+    await expect(keys.get()).resolves.toBe('old');
+    vi.advanceTimersByTime(1);
+    await expect(keys.get()).resolves.toBe('new-good');
+  });
+
+  it('should return the current key when another request already rotated', async () => {
+    const keys = new ApiKeyManager('primary', { fallbackKeys: ['fallback'] });
+
+    await expect(keys.rotate('primary')).resolves.toBe('fallback');
+    await expect(keys.rotate('primary')).resolves.toBe('fallback');
+  });
+});
+
+describe('client API key providers', () => {
+  it('should accept a sync or async provider', async () => {
+    const mockFetch = vi.fn().mockImplementation(() => Promise.resolve(jsonResponse(200, { id: 'job-1' })));
+    const syncClient = new AllscreenshotsClient({ apiKey: () => 'sync-key', fetch: mockFetch });
+    const asyncClient = AllscreenshotsClient.builder()
+      .withApiKey(async () => 'async-key')
+      .withFetch(mockFetch)
+      .build();
+
+    await syncClient.getJob('job-1');
+    await asyncClient.getJob('job-1');
+
+    expect(keyOf(mockFetch, 0)).toBe('sync-key');
+    expect(keyOf(mockFetch, 1)).toBe('async-key');
+  });
+
+  it('should refresh the key once and retry on 401', async () => {
+    const provider = vi.fn().mockReturnValueOnce('expired-key').mockReturnValue('rotated-key');
+    const mockFetch = vi.fn()
+      .mockResolvedValueOnce(jsonResponse(401, { message: 'Invalid API key' }))
+      .mockResolvedValue(jsonResponse(200, { id: 'job-1' }));
+    const client = new AllscreenshotsClient({ apiKey: provider, fetch: mockFetch });
+
+    await expect(client.getJob('job-1')).resolves.toEqual({ id: 'job-1' });
+    expect(keyOf(mockFetch, 0)).toBe('expired-key');
+    expect(keyOf(mockFetch, 1)).toBe('rotated-key');
+  });
+
+  it('should fall back to other keys during a rotation window', async () => {
+    const mockFetch = vi.fn().mockImplementation((_url: string, init: { headers: Record<string, string> }) =>
+      Promise.resolve(init.headers['X-API-Key'] === 'new-key'
+        ? jsonResponse(200, { id: 'job-1' })
+        : jsonResponse(401, { message: 'Invalid API key' }))
+    );
+    const client = AllscreenshotsClient.builder()
+      .withApiKey('revoked-key')
+      .withFallbackApiKeys('new-key')
+      .withFetch(mockFetch)
+      .build();
+
+    await client.getJob('job-1');
+    await client.getJob('job-2');
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(keyOf(mockFetch, 2)).toBe('new-key');
+  });
+
+  it('should throw the AuthenticationError once every key was rejected', async () => {
+    const mockFetch = vi.fn().mockImplementation(() => Promise.resolve(jsonResponse(401, { message: 'Invalid API key' })));
+    const client = new AllscreenshotsClient({ apiKey: 'key-1', fallbackApiKeys: ['key-2'], fetch: mockFetch });
+
+    await expect(client.getJob('job-1')).rejects.toThrow(AuthenticationError);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should use the provider key again after the rotation window ends', async () => {
+    vi.useFakeTimers();
+    const provider = vi.fn().mockReturnValueOnce('new-bad').mockReturnValueOnce('new-bad').mockReturnValue('new-good');
+    let oldRevoked = false;
+    const mockFetch = vi.fn().mockImplementation((_url: string, init: { headers: Record<string, string> }) => {
+      const key = init.headers['X-API-Key'];
+      return Promise.resolve(key === 'new-good' || (key === 'old' && !oldRevoked)
+        ? jsonResponse(200, { id: 'job-1' })
+        : jsonResponse(401, { message: 'Invalid API key' }));
+    });
+    const client = new AllscreenshotsClient({
+      apiKey: provider,
+      apiKeyRefreshIntervalMs: 10,
+      fallbackApiKeys: ['old'],
+      fetch: mockFetch,
+    });
+
+    await client.getJob('job-1');
+    vi.advanceTimersByTime(10);
+    oldRevoked = true;
+    await client.getJob('job-1');
+
+    expect(mockFetch.mock.calls.map((_call, index) => keyOf(mockFetch, index))).toEqual(['new-bad', 'old', 'new-good']);
+  });
+
+  it('should start over with the primary key after every key was rejected', async () => {
+    const provider = vi.fn().mockReturnValueOnce('key-1').mockReturnValue('key-2');
+    const mockFetch = vi.fn().mockImplementation(() => Promise.resolve(jsonResponse(401, { message: 'Invalid API key' })));
+    const client = new AllscreenshotsClient({ apiKey: provider, fallbackApiKeys: ['fallback'], fetch: mockFetch });
+
+    await expect(client.getJob('job-1')).rejects.toThrow(AuthenticationError);
+    await expect(client.getJob('job-1')).rejects.toThrow(AuthenticationError);
+
+    expect(keyOf(mockFetch, 2)).toBe('fallback');
+    expect(keyOf(mockFetch, 3)).toBe('key-2');
+  });
+
+  it('should not rotate keys on 403', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(jsonResponse(403, { message: 'Forbidden' }));
+    const client = new AllscreenshotsClient({ apiKey: 'key-1', fallbackApiKeys: ['key-2'], fetch: mockFetch });
+
+    await expect(client.getJob('job-1')).rejects.toThrow(AuthenticationError);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { build } from 'esbuild';
+import { fileURLToPath } from 'node:url';
+
+/**
+ * Bundle an entry the way browser and worker bundlers would, failing on Node.js built-ins
+ */
+const bundle = (path: string) => build({
+  entryPoints: [fileURLToPath(new URL(path, import.meta.url))],
+  bundle: true,
+  write: false,
+  platform: 'browser',
+  format: 'esm',
+  logLevel: 'silent',
+});
+
+describe('entry points', () => {
+  it('should bundle the main entry for browsers and workers', async () => {
+    const result = await bundle('../../src/index.ts');
+
+    expect(result.errors).toEqual([]);
+    expect(result.outputFiles[0]!.text).not.toMatch(/["']node:/);
+  });
+
+  it('should keep Node.js built-ins in the node entry', async () => {
+    await expect(bundle('../../src/node/index.ts')).rejects.toThrow(/node:/);
+  });
+});
@@ -0,0 +1,254 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  AbortError,
+  AllscreenshotsClient,
+  MemoryCacheStore,
+  ScreenshotCache,
+  type CacheEntry,
+  type CacheStore,
+} from '../../src/index.js';
+import { FileSystemCacheStore, sha256 } from '../../src/node/index.js';
+import { stableStringify } from '../../src/utils/cache.js';
+import { imageResponse, jsonResponse } from '../helpers/responses.js';
+
+const entry = (bytes: number[], extra: Partial<CacheEntry> = {}): CacheEntry => ({
+  data: new Uint8Array(bytes),
+  contentType: 'image/png',
+  createdAt: Date.now(),
+  ...extra,
+});
+
+describe('stableStringify', () => {
+  it('should ignore key order and undefined values', () => {
+    expect(stableStringify({ b: 1, a: { d: [2, 1], c: undefined } }))
+      .toBe(stableStringify({ a: { d: [2, 1] }, b: 1 }));
+    expect(stableStringify({ a: [1, 2] })).not.toBe(stableStringify({ a: [2, 1] }));
+  });
+});
+
+describe('ScreenshotCache', () => {
+  it('should derive the same key for equivalent requests', async () => {
+    const a = await ScreenshotCache.key({ url: 'https://example.com', fullPage: true, delay: undefined });
+    const b = await ScreenshotCache.key({ fullPage: true, url: 'https://example.com' });
+    const c = await ScreenshotCache.key({ url: 'https://example.com', fullPage: false });
+
+    expect(a).toBe(b);
+    expect(a).not.toBe(c);
+    expect(a).toMatch(/^screenshot-[0-9a-f]{64}$/);
+  });
+
+  it('should hash keys through node:crypto where Web Crypto is missing', async () => {
+    const request = { url: 'https://example.com' };
+    const webKey = await ScreenshotCache.key(request);
+    vi.stubGlobal('crypto', undefined);
+
+    try {
+      await expect(ScreenshotCache.key(request)).rejects.toThrow(TypeError);
+      expect(await ScreenshotCache.key(request, sha256)).toBe(webKey);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it('should count hits and misses', async () => {
+    const cache = new ScreenshotCache();
+    const request = { url: 'https://example.com' };
+
+    await cache.get(request);
+    await cache.set(request, new Uint8Array([1]), 'image/png');
+    await cache.get(request);
+    await cache.get(request);
+
+    expect(cache.stats).toEqual({ hits: 2, misses: 1, hitRate: 2 / 3 });
+    cache.resetStats();
+    expect(cache.stats).toEqual({ hits: 0, misses: 0, hitRate: 0 });
+  });
+
+  it('should expire entries after the TTL', async () => {
+    vi.useFakeTimers();
+    try {
+      const cache = new ScreenshotCache({ ttlMs: 1000 });
+      const request = { url: 'https://example.com' };
+      await cache.set(request, new Uint8Array([1]));
+
+      vi.advanceTimersByTime(999);
+      expect(await cache.get(request)).toBeDefined();
+
+      vi.advanceTimersByTime(1);
+      expect(await cache.get(request)).toBeUndefined();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should treat store failures as misses', async () => {
+    const store: CacheStore = {
+      get: () => Promise.reject(new Error('store down')),
+      set: () => Promise.reject(new Error('store down')),
+      delete: () => Promise.resolve(),
+    };
+    const cache = new ScreenshotCache({ store });
+
+    await expect(cache.set({ url: 'https://example.com' }, new Uint8Array([1]))).resolves.toBeUndefined();
+    await expect(cache.get({ url: 'https://example.com' })).resolves.toBeUndefined();
+    expect(cache.stats.misses).toBe(1);
+  });
+});
+
+describe('MemoryCacheStore', () => {
+  it('should evict the least recently used entry', async () => {
+    const store = new MemoryCacheStore({ maxEntries: 2 });
+    await store.set('a', entry([1]));
+    await store.set('b', entry([2]));
+    await store.get('a');
+    await store.set('c', entry([3]));
+
+    expect(store.size).toBe(2);
+    expect(await store.get('a')).toBeDefined();
+    expect(await store.get('b')).toBeUndefined();
+  });
+
+  it('should evict entries to stay within maxBytes', async () => {
+    const store = new MemoryCacheStore({ maxBytes: 4 });
+    await store.set('a', entry([1, 2]));
+    await store.set('b', entry([3, 4]));
+    await store.set('c', entry([5, 6]));
+    await store.set('huge', entry([1, 2, 3, 4, 5]));
+
+    expect(await store.get('a')).toBeUndefined();
+    expect(await store.get('huge')).toBeUndefined();
+    expect(store.size).toBe(2);
+  });
+});
+
+describe('FileSystemCacheStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = join(await mkdtemp(join(tmpdir(), 'allscreenshots-')), 'cache');
+  });
+
+  afterEach(async () => {
+    await rm(join(directory, '..'), { recursive: true, force: true });
+  });
+
+  it('should round-trip entries through the filesystem', async () => {
+    const store = new FileSystemCacheStore({ directory });
+    const stored = entry([1, 2, 3], { expiresAt: 123 });
+
+    expect(await store.get('screenshot-abc')).toBeUndefined();
+    await store.set('screenshot-abc', stored);
+
+    const loaded = await new FileSystemCacheStore({ directory }).get('screenshot-abc');
+    expect(loaded).toEqual(stored);
+    expect((await readdir(directory)).sort()).toEqual(['screenshot-abc.bin', 'screenshot-abc.json']);
+
+    await store.delete('screenshot-abc');
+    expect(await store.get('screenshot-abc')).toBeUndefined();
+  });
+
+  it('should remove everything on clear', async () => {
+    const store = new FileSystemCacheStore({ directory });
+    await store.set('a', entry([1]));
+
+    await store.clear();
+
+    expect(await store.get('a')).toBeUndefined();
+  });
+});
+
+describe('client caching', () => {
+  const request = { url: 'https://example.com', fullPage: true };
+
+  it('should serve repeated screenshots from the cache', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(imageResponse([1, 2, 3]));
+    const client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: mockFetch, cache: {} });
+
+    const first = await client.screenshot(request);
+    const { data, response } = await client.screenshot({ fullPage: true, url: 'https://example.com' }).withResponse();
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect([...data]).toEqual([1, 2, 3]);
+    expect(Buffer.isBuffer(data)).toBe(true);
+    expect(data).not.toBe(first);
+    expect(response).toMatchObject({ status: 200, cached: true, attempts: 0, contentType: 'image/png' });
+    expect(client.cache?.stats).toMatchObject({ hits: 1, misses: 1 });
+  });
+
+  it('should not let callers modify cached data', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(imageResponse([1, 2, 3]));
+    const client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: mockFetch, cache: {} });
+
+    const first = await client.screenshot(request);
+    first[0] = 99;
+    const second = await client.screenshot(request);
+
+    expect([...second]).toEqual([1, 2, 3]);
+  });
+
+  it('should skip the cache with bypass', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(imageResponse([1]));
+    const client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: mockFetch, cache: {} });
+
+    await client.screenshot(request, { cache: 'bypass' });
+    await client.screenshot(request);
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(client.cache?.stats).toMatchObject({ hits: 0, misses: 1 });
+  });
+
+  it('should capture again and replace the entry with refresh', async () => {
+    const mockFetch = vi.fn()
+      .mockResolvedValueOnce(imageResponse([1]))
+      .mockResolvedValueOnce(imageResponse([2]));
+    const client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: mockFetch, cache: {} });
+
+    await client.screenshot(request);
+    const refreshed = await client.screenshot(request, { cache: 'refresh' });
+    const cached = await client.screenshot(request);
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect([...refreshed]).toEqual([2]);
+    expect([...cached]).toEqual([2]);
+  });
+
+  it('should share a cache between clients and return the configured binary type', async () => {
+    const cache = new ScreenshotCache();
+    const mockFetch = vi.fn().mockResolvedValue(imageResponse([1, 2]));
+    const clientA = new AllscreenshotsClient({ apiKey: 'key-a', fetch: mockFetch, cache });
+    const clientB = AllscreenshotsClient.builder()
+      .withApiKey('key-b')
+      .withFetch(mockFetch)
+      .withCache(cache)
+      .withBinaryType('blob')
+      .build();
+
+    await clientA.screenshot(request);
+    const blob = await clientB.screenshot(request);
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(blob.type).toBe('image/png');
+    expect(blob.size).toBe(2);
+  });
+
+  it('should not cache failed captures', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(jsonResponse(400, { message: 'bad' }));
+    const client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: mockFetch, cache: {} });
+
+    await expect(client.screenshot(request)).rejects.toThrow();
+    await expect(client.screenshot(request)).rejects.toThrow();
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject a cache hit when the signal is already aborted', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(imageResponse([1]));
+    const client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: mockFetch, cache: {} });
+    await client.screenshot(request);
+
+    await expect(client.screenshot(request, { signal: AbortSignal.abort() })).rejects.toThrow(AbortError);
+  });
+});
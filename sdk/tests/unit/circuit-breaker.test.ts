@@ -0,0 +1,173 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  AbortError,
+  AllscreenshotsClient,
+  CircuitBreaker,
+  CircuitOpenError,
+  NotFoundError,
+  RateLimitError,
+  ServerError,
+  type CircuitStateChange,
+} from '../../src/index.js';
+import { jsonResponse } from '../helpers/responses.js';
+
+const fail = () => Promise.reject(new ServerError());
+const succeed = () => Promise.resolve('ok');
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should open after consecutive failures and fail fast', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2 });
+    const fn = vi.fn(fail);
+
+    await expect(breaker.execute(fn)).rejects.toThrow(ServerError);
+    expect(breaker.state).toBe('closed');
+    await expect(breaker.execute(fn)).rejects.toThrow(ServerError);
+    expect(breaker.state).toBe('open');
+
+    await expect(breaker.execute(fn)).rejects.toThrow(CircuitOpenError);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reset the failure count after a success', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2 });
+
+    await breaker.execute(fail).catch(() => {});
+    await breaker.execute(succeed);
+    await breaker.execute(fail).catch(() => {});
+
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should not count client errors, rate limits or aborts as failures', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1 });
+
+    await breaker.execute(() => Promise.reject(new NotFoundError())).catch(() => {});
+    await breaker.execute(() => Promise.reject(new RateLimitError())).catch(() => {});
+    await breaker.execute(() => Promise.reject(new AbortError())).catch(() => {});
+
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should report time until the next probe', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, openDurationMs: 10000 });
+    await breaker.execute(fail).catch(() => {});
+    vi.advanceTimersByTime(4000);
+
+    const error = await breaker.execute(succeed).catch((e) => e);
+
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(error.retryAfterMs).toBe(6000);
+  });
+
+  it('should close after a successful half-open probe', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, openDurationMs: 1000 });
+    await breaker.execute(fail).catch(() => {});
+
+    vi.advanceTimersByTime(1000);
+    expect(breaker.state).toBe('half-open');
+
+    await expect(breaker.execute(succeed)).resolves.toBe('ok');
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should reopen after a failed half-open probe', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 3, openDurationMs: 1000 });
+    for (let i = 0; i < 3; i++) {
+      await breaker.execute(fail).catch(() => {});
+    }
+
+    vi.advanceTimersByTime(1000);
+    await expect(breaker.execute(fail)).rejects.toThrow(ServerError);
+
+    expect(breaker.state).toBe('open');
+  });
+
+  it('should limit concurrent half-open probes', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, openDurationMs: 1000, halfOpenMaxRequests: 1 });
+    await breaker.execute(fail).catch(() => {});
+    vi.advanceTimersByTime(1000);
+
+    let finishProbe!: (value: string) => void;
+    const probe = breaker.execute(() => new Promise<string>((resolve) => {
+      finishProbe = resolve;
+    }));
+
+    await expect(breaker.execute(succeed)).rejects.toThrow(CircuitOpenError);
+
+    finishProbe('ok');
+    await probe;
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should require successThreshold probes to close', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, openDurationMs: 1000, successThreshold: 2 });
+    await breaker.execute(fail).catch(() => {});
+    vi.advanceTimersByTime(1000);
+
+    await breaker.execute(succeed);
+    expect(breaker.state).toBe('half-open');
+    await breaker.execute(succeed);
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should emit state changes', async () => {
+    const fromOptions = vi.fn();
+    const breaker = new CircuitBreaker({ failureThreshold: 1, openDurationMs: 1000, onStateChange: fromOptions });
+    const changes: CircuitStateChange[] = [];
+    const unsubscribe = breaker.onStateChange((change) => changes.push(change));
+
+    await breaker.execute(fail).catch(() => {});
+    vi.advanceTimersByTime(1000);
+    await breaker.execute(succeed);
+
+    expect(changes.map(({ from, to }) => `${from}->${to}`)).toEqual([
+      'closed->open',
+      'open->half-open',
+      'half-open->closed',
+    ]);
+    expect(changes[0]!.failures).toBe(1);
+    expect(fromOptions).toHaveBeenCalledTimes(3);
+
+    unsubscribe();
+    breaker.reset();
+    await breaker.execute(fail).catch(() => {});
+    expect(changes).toHaveLength(3);
+  });
+
+  it('should support a custom failure predicate', async () => {
+    const breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      isFailure: (error) => error instanceof NotFoundError,
+    });
+
+    await breaker.execute(() => Promise.reject(new NotFoundError())).catch(() => {});
+
+    expect(breaker.state).toBe('open');
+  });
+});
+
+describe('client circuit breaker', () => {
+  it('should fail fast without waiting for retries once open', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(jsonResponse(503, { message: 'Unavailable' }));
+    const client = AllscreenshotsClient.builder()
+      .withApiKey('key')
+      .withFetch(mockFetch)
+      .withRetry({ maxRetries: 5, initialDelayMs: 1 })
+      .withCircuitBreaker({ failureThreshold: 2, openDurationMs: 60000 })
+      .build();
+
+    await expect(client.getJob('job-1')).rejects.toThrow(CircuitOpenError);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+
+    await expect(client.getJob('job-2')).rejects.toThrow(CircuitOpenError);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+});
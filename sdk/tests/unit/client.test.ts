@@ -1,9 +1,15 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import {
+  AbortError,
   AllscreenshotsClient,
   AllscreenshotsClientBuilder,
+  ApiKeyManager,
   AuthenticationError,
+  ServerError,
+  TimeoutError,
 } from '../../src/index.js';
+import { MockServer } from '../../src/testing/index.js';
+import { imageResponse, jsonResponse } from '../helpers/responses.js';
 
 describe('AllscreenshotsClientBuilder', () => {
   const originalEnv = process.env;
@@ -116,6 +122,8 @@ describe('AllscreenshotsClient', () => {
     it('should send correct headers for JSON requests', async () => {
       mockFetch.mockResolvedValue({
         ok: true,
+        status: 200,
+        headers: new Headers(),
         text: () => Promise.resolve('{"id": "job-123"}'),
       });
 
@@ -136,6 +144,8 @@ describe('AllscreenshotsClient', () => {
     it('should send correct headers for binary requests', async () => {
       mockFetch.mockResolvedValue({
         ok: true,
+        status: 200,
+        headers: new Headers(),
         arrayBuffer: () => Promise.resolve(new ArrayBuffer(10)),
       });
 
@@ -154,6 +164,8 @@ describe('AllscreenshotsClient', () => {
     it('should serialize request body as JSON', async () => {
       mockFetch.mockResolvedValue({
         ok: true,
+        status: 200,
+        headers: new Headers(),
         text: () => Promise.resolve('{"id": "job-123"}'),
       });
 
@@ -176,6 +188,8 @@ describe('AllscreenshotsClient', () => {
     it('should include query parameters in URL', async () => {
       mockFetch.mockResolvedValue({
         ok: true,
+        status: 200,
+        headers: new Headers(),
         text: () => Promise.resolve('{"scheduleId": "123", "executions": []}'),
       });
 
@@ -188,6 +202,8 @@ describe('AllscreenshotsClient', () => {
     it('should encode path parameters', async () => {
       mockFetch.mockResolvedValue({
         ok: true,
+        status: 200,
+        headers: new Headers(),
         text: () => Promise.resolve('{"id": "special/id"}'),
       });
 
@@ -197,4 +213,254 @@ describe('AllscreenshotsClient', () => {
       expect(calledUrl).toContain('special%2Fid');
     });
   });
+
+  describe('custom fetch', () => {
+    it('should use the configured fetch instead of the global one', async () => {
+      const globalFetch = vi.fn();
+      global.fetch = globalFetch;
+      const customFetch = vi.fn().mockResolvedValue(jsonResponse(200, { id: 'job-123' }));
+
+      const client = new AllscreenshotsClient({
+        apiKey: 'test-key',
+        autoRetry: false,
+        fetch: customFetch,
+      });
+      await client.getJob('job-123');
+
+      expect(customFetch).toHaveBeenCalledTimes(1);
+      expect(globalFetch).not.toHaveBeenCalled();
+    });
+
+    it('should use the configured fetch for binary downloads', async () => {
+      const customFetch = vi.fn().mockResolvedValue(imageResponse([1, 2, 3]));
+
+      const client = AllscreenshotsClient.builder()
+        .withApiKey('test-key')
+        .withAutoRetry(false)
+        .withFetch(customFetch)
+        .build();
+
+      const image = await client.screenshot({ url: 'https://example.com' });
+      const result = await client.getJobResult('job-123');
+
+      expect(customFetch).toHaveBeenCalledTimes(2);
+      expect([...image]).toEqual([1, 2, 3]);
+      expect([...result]).toEqual([1, 2, 3]);
+    });
+  });
+
+  describe('request options', () => {
+    // Fetch that only settles when its signal aborts, like a real hanging request
+    const hangingFetch = () => vi.fn((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+      init.signal?.addEventListener('abort', () => {
+        reject(new DOMException('This operation was aborted', 'AbortError'));
+      });
+    }));
+
+    it('should merge per-call headers', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(jsonResponse(200, { id: 'job-1' }));
+      const client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: mockFetch });
+
+      await client.getJob('job-1', { headers: { 'X-Request-Source': 'dashboard' } });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({
+          headers: expect.objectContaining({
+            'X-API-Key': 'test-key',
+            'X-Request-Source': 'dashboard',
+          }),
+        })
+      );
+    });
+
+    it('should override the client timeout', async () => {
+      const client = new AllscreenshotsClient({
+        apiKey: 'test-key',
+        autoRetry: false,
+        timeout: 60000,
+        fetch: hangingFetch(),
+      });
+
+      await expect(client.getJob('job-1', { timeout: 10 })).rejects.toThrow(
+        new TimeoutError('Request timed out after 10ms')
+      );
+    });
+
+    it('should raise AbortError when the caller aborts', async () => {
+      const client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: hangingFetch() });
+      const controller = new AbortController();
+
+      const promise = client.screenshot({ url: 'https://example.com' }, { signal: controller.signal });
+      controller.abort();
+
+      await expect(promise).rejects.toThrow(AbortError);
+    });
+
+    it('should not call fetch when the signal is already aborted', async () => {
+      const mockFetch = vi.fn();
+      const client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: mockFetch });
+
+      await expect(client.getJob('job-1', { signal: AbortSignal.abort() })).rejects.toThrow(AbortError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should stop retrying when aborted during backoff', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(jsonResponse(503, { message: 'Unavailable' }));
+      const client = new AllscreenshotsClient({
+        apiKey: 'test-key',
+        fetch: mockFetch,
+        retry: { maxRetries: 3, initialDelayMs: 60000 },
+      });
+      const controller = new AbortController();
+
+      const promise = client.getJob('job-1', { signal: controller.signal });
+      await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(1));
+      controller.abort();
+
+      await expect(promise).rejects.toThrow(AbortError);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should override retry settings per call', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(jsonResponse(503, { message: 'Unavailable' }));
+      const client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: mockFetch });
+
+      await expect(client.getJob('job-1', { autoRetry: false })).rejects.toThrow(ServerError);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      mockFetch.mockClear();
+      await expect(
+        client.getJob('job-1', { retry: { maxRetries: 1, initialDelayMs: 1 } })
+      ).rejects.toThrow(ServerError);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('withOptions', () => {
+    const headersOf = (mockFetch: ReturnType<typeof vi.fn>, call = 0) =>
+      (mockFetch.mock.calls[call]![1] as { headers: Record<string, string> }).headers;
+
+    it('should override config and merge headers', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(jsonResponse(200, { id: 'job-1' }));
+      const parent = new AllscreenshotsClient({
+        apiKey: 'parent-key',
+        fetch: mockFetch,
+        headers: { 'X-App': 'dashboard', 'X-Env': 'prod' },
+      });
+
+      const child = parent.withOptions({
+        apiKey: 'tenant-key',
+        baseUrl: 'https://eu.api.allscreenshots.com',
+        headers: { 'X-Env': 'staging' },
+      });
+      await child.getJob('job-1');
+      await parent.getJob('job-1');
+
+      expect(child).toBeInstanceOf(AllscreenshotsClient);
+      expect(mockFetch.mock.calls[0]![0]).toBe('https://eu.api.allscreenshots.com/v1/screenshots/jobs/job-1');
+      expect(headersOf(mockFetch, 0)).toMatchObject({
+        'X-API-Key': 'tenant-key',
+        'X-App': 'dashboard',
+        'X-Env': 'staging',
+      });
+      expect(mockFetch.mock.calls[1]![0]).toBe('https://api.allscreenshots.com/v1/screenshots/jobs/job-1');
+      expect(headersOf(mockFetch, 1)).toMatchObject({ 'X-API-Key': 'parent-key', 'X-Env': 'prod' });
+    });
+
+    it('should share infrastructure with the parent', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(imageResponse([1]));
+      const parent = new AllscreenshotsClient({
+        apiKey: 'parent-key',
+        fetch: mockFetch,
+        maxConcurrency: 2,
+        rateLimiter: { requestsPerInterval: 100 },
+        cache: {},
+      });
+
+      const child = parent.withOptions({ timeout: 5000 });
+      await parent.screenshot({ url: 'https://example.com' });
+      await child.screenshot({ url: 'https://example.com' });
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(child.cache).toBe(parent.cache);
+      expect(child.queue).toBe(parent.queue);
+      expect(headersOf(mockFetch)['X-API-Key']).toBe('parent-key');
+    });
+
+    it('should not share the cache with a child for another key or base URL', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(imageResponse([1]));
+      const parent = new AllscreenshotsClient({ apiKey: 'parent-key', fetch: mockFetch, cache: {} });
+      const tenant = parent.withOptions({ apiKey: 'tenant-key' });
+      const staging = parent.withOptions({ baseUrl: 'https://staging.example.com' });
+
+      await parent.screenshot({ url: 'https://example.com' });
+      await tenant.screenshot({ url: 'https://example.com' });
+      await staging.screenshot({ url: 'https://example.com' });
+
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(tenant.cache).toBeUndefined();
+      expect(staging.cache).toBeUndefined();
+      expect(parent.withOptions({ apiKey: 'tenant-key', cache: parent.cache }).cache).toBe(parent.cache);
+    });
+
+    it('should never fall back to parent keys in a child with its own key', async () => {
+      const server = new MockServer({ apiKeys: ['parent-fallback'] });
+      const parent = new AllscreenshotsClient({
+        apiKey: 'parent-key',
+        fallbackApiKeys: ['parent-fallback'],
+        fetch: server.fetch,
+      });
+
+      const child = parent.withOptions({ apiKey: 'tenant-key' });
+
+      await expect(child.getUsage()).rejects.toThrow(AuthenticationError);
+      expect(server.requests.map((request) => request.headers['x-api-key'])).toEqual(['tenant-key']);
+    });
+
+    it('should keep fallback keys passed together with the child key', async () => {
+      const server = new MockServer({ apiKeys: ['tenant-fallback'] });
+      const parent = new AllscreenshotsClient({ apiKey: 'parent-key', fallbackApiKeys: ['parent-fallback'], fetch: server.fetch });
+
+      const child = parent.withOptions({ apiKey: 'tenant-key', fallbackApiKeys: ['tenant-fallback'] });
+
+      await expect(child.getUsage()).resolves.toBeDefined();
+      expect(server.requests.map((request) => request.headers['x-api-key'])).toEqual(['tenant-key', 'tenant-fallback']);
+    });
+
+    it('should reject fallback keys overridden without a key for an ApiKeyManager', () => {
+      const parent = new AllscreenshotsClient({ apiKey: new ApiKeyManager('parent-key') });
+
+      expect(() => parent.withOptions({ fallbackApiKeys: ['other-key'] })).toThrow(TypeError);
+    });
+
+    it('should create a new queue when maxConcurrency is overridden', () => {
+      const parent = new AllscreenshotsClient({ apiKey: 'key', maxConcurrency: 2 });
+
+      expect(parent.withOptions({ maxConcurrency: 1 }).queue).not.toBe(parent.queue);
+    });
+
+    it('should pass client and per-call tags to middleware', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(jsonResponse(200, { id: 'job-1' }));
+      const seen: Array<Record<string, string> | undefined> = [];
+      const parent = new AllscreenshotsClient({
+        apiKey: 'key',
+        fetch: mockFetch,
+        tags: { app: 'dashboard' },
+        middleware: [(context, next) => {
+          seen.push(context.tags);
+          return next(context);
+        }],
+      });
+
+      const child = parent.withOptions({ tags: { tenant: 'acme' } });
+      await child.getJob('job-1', { tags: { route: '/preview' } });
+      await parent.getJob('job-1');
+
+      expect(seen).toEqual([
+        { app: 'dashboard', tenant: 'acme', route: '/preview' },
+        { app: 'dashboard' },
+      ]);
+    });
+  });
 });
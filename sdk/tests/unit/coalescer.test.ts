@@ -0,0 +1,219 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AbortError, AllscreenshotsClient, RequestCoalescer } from '../../src/index.js';
+import { imageResponse, jsonResponse } from '../helpers/responses.js';
+
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+describe('RequestCoalescer', () => {
+  it('should share a pending call between callers with the same key', async () => {
+    const coalescer = new RequestCoalescer();
+    const pending = deferred<string>();
+    const fn = vi.fn().mockReturnValue(pending.promise);
+
+    const a = coalescer.run('key', fn);
+    const b = coalescer.run('key', fn);
+    const c = coalescer.run('other', () => Promise.resolve('other'));
+    pending.resolve('value');
+
+    await expect(Promise.all([a, b, c])).resolves.toEqual(['value', 'value', 'other']);
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(coalescer.size).toBe(0);
+  });
+
+  it('should start a new call once the previous one settled', async () => {
+    const coalescer = new RequestCoalescer();
+    const fn = vi.fn().mockResolvedValue('value');
+
+    await coalescer.run('key', fn);
+    await coalescer.run('key', fn);
+
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should share rejections', async () => {
+    const coalescer = new RequestCoalescer();
+    const pending = deferred<string>();
+
+    const a = coalescer.run('key', () => pending.promise);
+    const b = coalescer.run('key', () => pending.promise);
+    pending.reject(new Error('failed'));
+
+    await expect(a).rejects.toThrow('failed');
+    await expect(b).rejects.toThrow('failed');
+  });
+
+  it('should apply share() to joining callers only', async () => {
+    const coalescer = new RequestCoalescer();
+    const share = vi.fn((value: number[]) => [...value]);
+    const pending = deferred<number[]>();
+
+    const a = coalescer.run('key', () => pending.promise, { share });
+    const b = coalescer.run('key', () => pending.promise, { share });
+    pending.resolve([1]);
+
+    const [first, second] = await Promise.all([a, b]);
+    expect(first).toEqual(second);
+    expect(first).not.toBe(second);
+    expect(share).toHaveBeenCalledTimes(1);
+  });
+
+  it('should let one caller abort without affecting the others', async () => {
+    const coalescer = new RequestCoalescer();
+    const pending = deferred<string>();
+    let sharedSignal!: AbortSignal;
+    const controller = new AbortController();
+
+    const a = coalescer.run('key', (signal) => {
+      sharedSignal = signal;
+      return pending.promise;
+    }, { signal: controller.signal });
+    const b = coalescer.run('key', () => pending.promise);
+    controller.abort();
+    pending.resolve('value');
+
+    await expect(a).rejects.toThrow(AbortError);
+    await expect(b).resolves.toBe('value');
+    expect(sharedSignal.aborted).toBe(false);
+  });
+
+  it('should cancel the shared call once every caller aborted', async () => {
+    const coalescer = new RequestCoalescer();
+    let sharedSignal!: AbortSignal;
+    const first = new AbortController();
+    const second = new AbortController();
+    const fn = (signal: AbortSignal) => {
+      sharedSignal = signal;
+      return new Promise<string>(() => undefined);
+    };
+
+    const a = coalescer.run('key', fn, { signal: first.signal });
+    const b = coalescer.run('key', fn, { signal: second.signal });
+    first.abort();
+    expect(sharedSignal.aborted).toBe(false);
+    second.abort();
+
+    await expect(a).rejects.toThrow(AbortError);
+    await expect(b).rejects.toThrow(AbortError);
+    expect(sharedSignal.aborted).toBe(true);
+    expect(coalescer.size).toBe(0);
+  });
+
+  it('should reject immediately when the signal is already aborted', async () => {
+    const coalescer = new RequestCoalescer();
+    const fn = vi.fn();
+
+    await expect(coalescer.run('key', fn, { signal: AbortSignal.abort() })).rejects.toThrow(AbortError);
+    expect(fn).not.toHaveBeenCalled();
+  });
+});
+
+describe('client coalescing', () => {
+  const jobResponse = () => jsonResponse(200, { id: 'job-1', status: 'COMPLETED' });
+  const resultResponse = () => imageResponse([1, 2, 3]);
+
+  it('should not coalesce by default', async () => {
+    const mockFetch = vi.fn().mockImplementation(() => Promise.resolve(jobResponse()));
+    const client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: mockFetch });
+
+    await Promise.all([client.getJob('job-1'), client.getJob('job-1')]);
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should send identical screenshot requests once', async () => {
+    const mockFetch = vi.fn().mockImplementation(() => Promise.resolve(resultResponse()));
+    const client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: mockFetch, coalesce: true });
+
+    const [a, b, c] = await Promise.all([
+      client.screenshot({ url: 'https://example.com', fullPage: true }),
+      client.screenshot({ fullPage: true, url: 'https://example.com' }),
+      client.screenshot({ url: 'https://example.org' }),
+    ]);
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect([...a]).toEqual([...b]);
+    expect(a).not.toBe(b);
+    expect(c).toBeDefined();
+  });
+
+  it('should coalesce getJob and getJobResult per job ID', async () => {
+    const mockFetch = vi.fn().mockImplementation((url: string) =>
+      Promise.resolve(url.endsWith('/result') ? resultResponse() : jobResponse())
+    );
+    const client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: mockFetch, coalesce: true });
+
+    await Promise.all([
+      client.getJob('job-1'),
+      client.getJob('job-1'),
+      client.getJobResult('job-1'),
+      client.getJobResult('job-1'),
+      client.getJob('job-2'),
+    ]);
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should be configurable per method', async () => {
+    const mockFetch = vi.fn().mockImplementation(() => Promise.resolve(jobResponse()));
+    const client = AllscreenshotsClient.builder()
+      .withApiKey('test-key')
+      .withFetch(mockFetch)
+      .withCoalescing({ getJob: true })
+      .build();
+
+    await Promise.all([client.getJob('job-1'), client.getJob('job-1')]);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    mockFetch.mockImplementation(() => Promise.resolve(resultResponse()));
+    await Promise.all([client.getJobResult('job-1'), client.getJobResult('job-1')]);
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should let each caller abort independently', async () => {
+    let fetchSignal!: AbortSignal;
+    const pending = deferred<Response>();
+    const mockFetch = vi.fn().mockImplementation((_url: string, init: RequestInit) => {
+      fetchSignal = init.signal!;
+      return pending.promise;
+    });
+    const client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: mockFetch, coalesce: true });
+    const controller = new AbortController();
+
+    const aborted = client.getJob('job-1', { signal: controller.signal });
+    const waiting = client.getJob('job-1');
+    await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(1));
+    controller.abort();
+    pending.resolve(jobResponse());
+
+    await expect(aborted).rejects.toThrow(AbortError);
+    await expect(waiting).resolves.toMatchObject({ id: 'job-1' });
+    expect(fetchSignal.aborted).toBe(false);
+  });
+
+  it('should cancel the HTTP call when every caller aborted', async () => {
+    let fetchSignal!: AbortSignal;
+    const mockFetch = vi.fn().mockImplementation((_url: string, init: RequestInit) => {
+      fetchSignal = init.signal!;
+      return new Promise((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+      });
+    });
+    const client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: mockFetch, coalesce: true });
+    const controller = new AbortController();
+
+    const call = client.getJob('job-1', { signal: controller.signal });
+    await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(1));
+    controller.abort();
+
+    await expect(call).rejects.toThrow(AbortError);
+    expect(fetchSignal.aborted).toBe(true);
+  });
+});
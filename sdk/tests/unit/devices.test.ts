@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEVICE_PRESETS,
+  devicesByCategory,
+  isKnownDevice,
+  viewportFor,
+} from '../../src/index.js';
+
+describe('device presets', () => {
+  it('should key every preset by its name', () => {
+    for (const [name, preset] of Object.entries(DEVICE_PRESETS)) {
+      expect(preset.name).toBe(name);
+    }
+  });
+
+  it('should list presets by category', () => {
+    expect(devicesByCategory('mobile').map((preset) => preset.name)).toEqual(['iPhone 14', 'iPhone 14 Pro Max']);
+    expect(devicesByCategory('tablet').every((preset) => preset.hasTouch)).toBe(true);
+    expect(devicesByCategory('desktop').some((preset) => preset.isMobile)).toBe(false);
+  });
+
+  it('should return the viewport of known presets only', () => {
+    expect(viewportFor('iPad')).toEqual({ width: 820, height: 1180, deviceScaleFactor: 2 });
+    expect(viewportFor('iPhone14')).toBeUndefined();
+    expect(viewportFor('toString')).toBeUndefined();
+  });
+
+  it('should recognize known device names', () => {
+    expect(isKnownDevice('Desktop HD')).toBe(true);
+    expect(isKnownDevice('desktop hd')).toBe(false);
+  });
+});
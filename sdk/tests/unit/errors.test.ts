@@ -2,13 +2,21 @@ import { describe, it, expect } from 'vitest';
 import {
   AllscreenshotsError,
   AuthenticationError,
+  ForbiddenError,
   ValidationError,
+  UnprocessableEntityError,
   NotFoundError,
+  ConflictError,
+  PayloadTooLargeError,
   RateLimitError,
   QuotaExceededError,
   ServerError,
   NetworkError,
   TimeoutError,
+  RequestTimeoutError,
+  AbortError,
+  CircuitOpenError,
+  isAllscreenshotsError,
   parseApiError,
 } from '../../src/errors/index.js';
 
@@ -31,6 +39,58 @@ describe('error classes', () => {
       expect(error).toBeInstanceOf(Error);
       expect(error).toBeInstanceOf(AllscreenshotsError);
     });
+
+    it('should keep the cause and not be retryable by default', () => {
+      const cause = new TypeError('fetch failed');
+      const error = new AllscreenshotsError('Test', undefined, undefined, { cause });
+      expect(error.cause).toBe(cause);
+      expect(error.isRetryable).toBe(false);
+    });
+
+    it('should serialize to JSON with subclass fields, request ID and cause', () => {
+      const error = new RateLimitError('Rate limited', 30);
+      error.rawBody = { message: 'Rate limited' };
+      error.response = {
+        status: 429,
+        headers: new Headers({ 'X-Request-Id': 'req_1' }),
+        requestId: 'req_1',
+        rateLimit: {},
+        attempts: 1,
+      };
+
+      expect(JSON.parse(JSON.stringify(error))).toEqual({
+        name: 'RateLimitError',
+        message: 'Rate limited',
+        statusCode: 429,
+        errorCode: 'RATE_LIMIT_EXCEEDED',
+        isRetryable: true,
+        retryAfter: 30,
+        requestId: 'req_1',
+        rawBody: { message: 'Rate limited' },
+      });
+      expect(new AllscreenshotsError('Wrapped', undefined, undefined, { cause: new Error('Boom') }).toJSON())
+        .toMatchObject({ cause: { name: 'Error', message: 'Boom' } });
+    });
+  });
+
+  describe('isAllscreenshotsError', () => {
+    it('should recognize SDK errors and check the error code', () => {
+      const error = new ConflictError();
+      expect(isAllscreenshotsError(error)).toBe(true);
+      expect(isAllscreenshotsError(error, 'CONFLICT')).toBe(true);
+      expect(isAllscreenshotsError(error, 'NOT_FOUND')).toBe(false);
+      expect(isAllscreenshotsError(new Error('Other'))).toBe(false);
+      expect(isAllscreenshotsError({ errorCode: 'CONFLICT' })).toBe(false);
+      expect(isAllscreenshotsError(null)).toBe(false);
+    });
+
+    it('should recognize errors from another copy of the SDK', () => {
+      const foreign = Object.assign(new Error('Forbidden'), { errorCode: 'FORBIDDEN' });
+      Object.defineProperty(foreign, Symbol.for('@allscreenshots/sdk/error'), { value: true });
+
+      expect(foreign).not.toBeInstanceOf(AllscreenshotsError);
+      expect(isAllscreenshotsError(foreign, 'FORBIDDEN')).toBe(true);
+    });
   });
 
   describe('AuthenticationError', () => {
@@ -47,6 +107,16 @@ describe('error classes', () => {
     });
   });
 
+  describe('ForbiddenError', () => {
+    it('should have correct defaults and be an AuthenticationError', () => {
+      const error = new ForbiddenError();
+      expect(error.statusCode).toBe(403);
+      expect(error.errorCode).toBe('FORBIDDEN');
+      expect(error.name).toBe('ForbiddenError');
+      expect(error).toBeInstanceOf(AuthenticationError);
+    });
+  });
+
   describe('ValidationError', () => {
     it('should have correct defaults', () => {
       const error = new ValidationError('Invalid input');
@@ -62,6 +132,17 @@ describe('error classes', () => {
     });
   });
 
+  describe('UnprocessableEntityError', () => {
+    it('should have correct defaults and be a ValidationError', () => {
+      const error = new UnprocessableEntityError(undefined, { url: 'Unreachable' });
+      expect(error.statusCode).toBe(422);
+      expect(error.errorCode).toBe('UNPROCESSABLE_ENTITY');
+      expect(error.name).toBe('UnprocessableEntityError');
+      expect(error.validationErrors).toEqual({ url: 'Unreachable' });
+      expect(error).toBeInstanceOf(ValidationError);
+    });
+  });
+
   describe('NotFoundError', () => {
     it('should have correct defaults', () => {
       const error = new NotFoundError();
@@ -125,6 +206,41 @@ describe('error classes', () => {
       expect(error.name).toBe('TimeoutError');
     });
   });
+
+  describe('RequestTimeoutError', () => {
+    it('should have correct defaults and be a retryable TimeoutError', () => {
+      const error = new RequestTimeoutError();
+      expect(error.statusCode).toBe(408);
+      expect(error.errorCode).toBe('REQUEST_TIMEOUT');
+      expect(error.name).toBe('RequestTimeoutError');
+      expect(error.isRetryable).toBe(true);
+      expect(error).toBeInstanceOf(TimeoutError);
+    });
+  });
+
+  describe('AbortError', () => {
+    it('should have correct defaults', () => {
+      const error = new AbortError();
+      expect(error.statusCode).toBeUndefined();
+      expect(error.errorCode).toBe('ABORTED');
+      expect(error.name).toBe('AbortError');
+      expect(error).toBeInstanceOf(AllscreenshotsError);
+    });
+  });
+
+  describe('CircuitOpenError', () => {
+    it('should have correct defaults', () => {
+      const error = new CircuitOpenError();
+      expect(error.statusCode).toBeUndefined();
+      expect(error.errorCode).toBe('CIRCUIT_OPEN');
+      expect(error.name).toBe('CircuitOpenError');
+    });
+
+    it('should include retryAfterMs', () => {
+      const error = new CircuitOpenError('Open', 5000);
+      expect(error.retryAfterMs).toBe(5000);
+    });
+  });
 });
 
 describe('parseApiError', () => {
@@ -144,6 +260,29 @@ describe('parseApiError', () => {
     expect(error).toBeInstanceOf(AuthenticationError);
   });
 
+  it('should return ForbiddenError for 403', () => {
+    const error = parseApiError(403, { message: 'Forbidden' });
+    expect(error).toBeInstanceOf(ForbiddenError);
+    expect(error.statusCode).toBe(403);
+  });
+
+  it('should return dedicated errors for 408, 409, 413 and 422', () => {
+    expect(parseApiError(408, null)).toBeInstanceOf(RequestTimeoutError);
+    expect(parseApiError(409, { message: 'Job not completed' })).toBeInstanceOf(ConflictError);
+    expect(parseApiError(413, null)).toBeInstanceOf(PayloadTooLargeError);
+
+    const error = parseApiError(422, { message: 'Unreachable URL', validationErrors: { url: 'DNS lookup failed' } });
+    expect(error).toBeInstanceOf(UnprocessableEntityError);
+    expect((error as UnprocessableEntityError).validationErrors).toEqual({ url: 'DNS lookup failed' });
+  });
+
+  it('should keep the raw body', () => {
+    const body = { message: 'Conflict', errorCode: 'JOB_NOT_COMPLETED', details: { status: 'PROCESSING' } };
+    expect(parseApiError(409, body).rawBody).toBe(body);
+    expect(parseApiError(502, '<html>Bad gateway</html>').rawBody).toBe('<html>Bad gateway</html>');
+    expect(parseApiError(500, null).rawBody).toBeUndefined();
+  });
+
   it('should return QuotaExceededError for 402', () => {
     const error = parseApiError(402, { message: 'Quota exceeded' });
     expect(error).toBeInstanceOf(QuotaExceededError);
@@ -191,4 +330,9 @@ describe('parseApiError', () => {
     expect(error.message).toBe("I'm a teapot");
     expect(error.statusCode).toBe(418);
   });
+
+  it('should keep the API error code for unknown status codes', () => {
+    const error = parseApiError(451, { message: 'Blocked', errorCode: 'LEGAL_BLOCK' });
+    expect(error.errorCode).toBe('LEGAL_BLOCK');
+  });
 });
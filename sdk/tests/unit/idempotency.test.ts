@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { AllscreenshotsClient, ServerError } from '../../src/index.js';
+import { generateIdempotencyKey } from '../../src/utils/idempotency.js';
+import { jsonResponse } from '../helpers/responses.js';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+const sentHeaders = (mockFetch: ReturnType<typeof vi.fn>, call: number): Record<string, string> =>
+  mockFetch.mock.calls[call]![1].headers;
+
+describe('generateIdempotencyKey', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should generate unique UUID v4 keys', () => {
+    const first = generateIdempotencyKey();
+    const second = generateIdempotencyKey();
+
+    expect(first).toMatch(UUID_PATTERN);
+    expect(second).toMatch(UUID_PATTERN);
+    expect(first).not.toBe(second);
+  });
+
+  it('should fall back when Web Crypto is unavailable', () => {
+    vi.stubGlobal('crypto', undefined);
+    expect(generateIdempotencyKey()).toMatch(UUID_PATTERN);
+  });
+});
+
+describe('client idempotency keys', () => {
+  it('should reuse one key across every retry attempt', async () => {
+    const mockFetch = vi.fn()
+      .mockResolvedValueOnce(jsonResponse(503, { message: 'Unavailable' }))
+      .mockResolvedValueOnce(jsonResponse(503, { message: 'Unavailable' }))
+      .mockResolvedValue(jsonResponse(200, { id: 'job-1' }));
+    const client = new AllscreenshotsClient({
+      apiKey: 'test-key',
+      fetch: mockFetch,
+      retry: { initialDelayMs: 1 },
+    });
+
+    await client.screenshotAsync({ url: 'https://example.com' });
+
+    const keys = [0, 1, 2].map((call) => sentHeaders(mockFetch, call)['Idempotency-Key']);
+    expect(keys[0]).toMatch(UUID_PATTERN);
+    expect(new Set(keys).size).toBe(1);
+  });
+
+  it('should generate a new key for each logical call', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(jsonResponse(200, { id: 'bulk-1' }));
+    const client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: mockFetch });
+
+    await client.createBulkJob({ urls: [{ url: 'https://example.com' }] });
+    await client.createBulkJob({ urls: [{ url: 'https://example.com' }] });
+
+    expect(sentHeaders(mockFetch, 0)['Idempotency-Key']).not.toBe(sentHeaders(mockFetch, 1)['Idempotency-Key']);
+  });
+
+  it('should use a caller-provided key', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(jsonResponse(200, { id: 'schedule-1' }));
+    const client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: mockFetch });
+
+    await client.createSchedule(
+      { name: 'Daily', url: 'https://example.com', schedule: '0 9 * * *' },
+      { idempotencyKey: 'schedule-daily-2024' }
+    );
+
+    expect(sentHeaders(mockFetch, 0)['Idempotency-Key']).toBe('schedule-daily-2024');
+  });
+
+  it('should not send keys for idempotent requests', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(jsonResponse(200, { id: 'job-1' }));
+    const client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: mockFetch });
+
+    await client.getJob('job-1');
+    await client.cancelJob('job-1');
+
+    expect(sentHeaders(mockFetch, 0)).not.toHaveProperty('Idempotency-Key');
+    expect(sentHeaders(mockFetch, 1)).not.toHaveProperty('Idempotency-Key');
+  });
+
+  it('should not send keys when disabled', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(jsonResponse(200, { id: 'job-1' }));
+    const client = AllscreenshotsClient.builder()
+      .withApiKey('test-key')
+      .withIdempotencyKeys(false)
+      .withFetch(mockFetch)
+      .build();
+
+    await client.compose({ captures: [{ url: 'https://example.com' }] });
+
+    expect(sentHeaders(mockFetch, 0)).not.toHaveProperty('Idempotency-Key');
+  });
+
+  describe('retryRequiresIdempotencyKey', () => {
+    const createClient = (mockFetch: ReturnType<typeof vi.fn>) => new AllscreenshotsClient({
+      apiKey: 'test-key',
+      fetch: mockFetch,
+      idempotencyKeys: false,
+      retryRequiresIdempotencyKey: true,
+      retry: { maxRetries: 2, initialDelayMs: 1 },
+    });
+
+    it('should not retry non-idempotent requests without a key', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(jsonResponse(503, { message: 'Unavailable' }));
+
+      await expect(createClient(mockFetch).triggerSchedule('schedule-1')).rejects.toThrow(ServerError);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry non-idempotent requests with a key', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(jsonResponse(503, { message: 'Unavailable' }));
+
+      await expect(
+        createClient(mockFetch).triggerSchedule('schedule-1', { idempotencyKey: 'trigger-1' })
+      ).rejects.toThrow(ServerError);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should still retry idempotent requests', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(jsonResponse(503, { message: 'Unavailable' }));
+
+      await expect(createClient(mockFetch).getSchedule('schedule-1')).rejects.toThrow(ServerError);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+  });
+});
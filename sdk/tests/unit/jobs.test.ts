@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  AllscreenshotsClient,
+  BulkJob,
+  ComposeJob,
+  ConflictError,
+  JobCancelledError,
+  JobFailedError,
+  ScreenshotJob,
+  TimeoutError,
+} from '../../src/index.js';
+import { MockServer } from '../../src/testing/index.js';
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47];
+
+describe('job handles', () => {
+  let server: MockServer;
+  let client: AllscreenshotsClient;
+
+  beforeEach(() => {
+    server = new MockServer();
+    client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: server.fetch });
+  });
+
+  describe('ScreenshotJob', () => {
+    it('should create, wait for and download a job', async () => {
+      const job = await ScreenshotJob.create(client, { url: 'https://example.com' });
+      expect(job).toMatchObject({ id: 'job_1', status: 'QUEUED', done: false });
+
+      const final = await job.wait({ pollInterval: 1 });
+      const image = await job.result();
+
+      expect(final.status).toBe('COMPLETED');
+      expect(job.status).toBe('COMPLETED');
+      expect(job.done).toBe(true);
+      expect(job.latest).toBe(final);
+      expect([...image.subarray(0, 4)]).toEqual(PNG_SIGNATURE);
+    });
+
+    it('should refresh and cancel', async () => {
+      const job = await ScreenshotJob.create(client, { url: 'https://example.com' });
+
+      expect((await job.refresh()).status).toBe('PROCESSING');
+      expect((await job.cancel()).status).toBe('CANCELLED');
+      expect(job.status).toBe('CANCELLED');
+      await expect(job.wait()).rejects.toThrow(JobCancelledError);
+    });
+
+    it('should yield each status change once', async () => {
+      server = new MockServer({ processingPolls: 3 });
+      client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: server.fetch });
+      const job = await ScreenshotJob.create(client, { url: 'https://example.com' });
+
+      const statuses: string[] = [];
+      for await (const status of job.watch({ pollInterval: 1 })) {
+        statuses.push(status.status);
+      }
+
+      expect(statuses).toEqual(['PROCESSING', 'COMPLETED']);
+      expect(server.requests.filter((request) => request.method === 'GET')).toHaveLength(4);
+    });
+
+    it('should end iteration on failed jobs', async () => {
+      const job = await ScreenshotJob.create(client, { url: 'https://example.com' });
+      server.failJob(job.id, 'Page crashed');
+
+      const statuses: string[] = [];
+      for await (const status of job) {
+        statuses.push(status.status);
+      }
+
+      expect(statuses).toEqual(['FAILED']);
+      await expect(job.wait()).rejects.toThrow(JobFailedError);
+    });
+
+    it('should cancel on timeout when asked to', async () => {
+      server = new MockServer({ processingPolls: 1000 });
+      client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: server.fetch });
+      const job = await ScreenshotJob.create(client, { url: 'https://example.com' });
+
+      await expect(job.wait({ pollInterval: 1, backoff: 1, timeout: 20, cancelOnAbort: true })).rejects.toThrow(TimeoutError);
+
+      expect(job.status).toBe('CANCELLED');
+    });
+
+    it('should resume from its JSON form', async () => {
+      const job = await ScreenshotJob.create(client, { url: 'https://example.com' });
+      const data = JSON.parse(JSON.stringify(job));
+
+      expect(data).toEqual({ type: 'screenshot', id: 'job_1', status: 'QUEUED' });
+
+      const resumed = ScreenshotJob.fromJSON(client, data);
+      expect(resumed.status).toBe('QUEUED');
+      await resumed.wait({ pollInterval: 1 });
+      expect([...(await resumed.result()).subarray(0, 4)]).toEqual(PNG_SIGNATURE);
+    });
+
+    it('should reject JSON of other job kinds', () => {
+      expect(() => ScreenshotJob.fromJSON(client, { type: 'bulk', id: 'bulk_1' })).toThrow(TypeError);
+      expect(() => BulkJob.fromJSON(client, JSON.parse('{}'))).toThrow('Expected a serialized bulk job, got {}');
+    });
+  });
+
+  describe('BulkJob', () => {
+    it('should wait for all screenshots and return them', async () => {
+      const bulk = await BulkJob.create(client, {
+        urls: [{ url: 'https://example.com' }, { url: 'https://example.org' }],
+      });
+
+      const final = await bulk.wait({ pollInterval: 1 });
+      const jobs = await bulk.result();
+
+      expect(final).toMatchObject({ status: 'COMPLETED', completedJobs: 2 });
+      expect(jobs.map((job) => job.status)).toEqual(['COMPLETED', 'COMPLETED']);
+      expect(BulkJob.fromJSON(client, bulk.toJSON())).toMatchObject({ type: 'bulk', id: bulk.id, status: 'COMPLETED' });
+    });
+
+    it('should cancel the bulk job', async () => {
+      const bulk = await BulkJob.create(client, { urls: [{ url: 'https://example.com' }] });
+
+      await bulk.cancel();
+
+      expect(bulk.status).toBe('CANCELLED');
+      expect((await client.getJob('job_1')).status).toBe('CANCELLED');
+    });
+  });
+
+  describe('ComposeJob', () => {
+    it('should compose asynchronously and return the result', async () => {
+      const compose = await ComposeJob.create(client, {
+        url: 'https://example.com',
+        variants: [{ device: 'iPhone 14' }, { device: 'Desktop HD' }],
+      });
+      expect(compose).toMatchObject({ id: 'compose_1', status: 'QUEUED' });
+      expect(server.requests[0]).toMatchObject({ body: { async: true } });
+
+      await expect(compose.result()).rejects.toThrow(ConflictError);
+
+      const statuses: string[] = [];
+      for await (const status of compose.watch({ pollInterval: 1 })) {
+        statuses.push(status.status);
+      }
+
+      expect(statuses).toEqual(['COMPLETED']);
+      expect((await compose.result()).metadata?.totalCaptures).toBe(2);
+      expect(ComposeJob.fromJSON(client, JSON.parse(JSON.stringify(compose))).id).toBe(compose.id);
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  AllscreenshotsClient,
+  NotFoundError,
+  type Middleware,
+  type RequestContext,
+} from '../../src/index.js';
+import { composeMiddleware } from '../../src/utils/middleware.js';
+import { jsonResponse } from '../helpers/responses.js';
+
+describe('composeMiddleware', () => {
+  it('should run middleware in order around the handler', async () => {
+    const calls: string[] = [];
+    const track = (name: string): Middleware => async (context, next) => {
+      calls.push(`${name}:before`);
+      const response = await next(context);
+      calls.push(`${name}:after`);
+      return response;
+    };
+
+    const handler = vi.fn(async () => {
+      calls.push('handler');
+      return { status: 200, headers: new Headers(), body: null };
+    });
+
+    await composeMiddleware([track('a'), track('b')], handler)({} as RequestContext);
+
+    expect(calls).toEqual(['a:before', 'b:before', 'handler', 'b:after', 'a:after']);
+  });
+
+  it('should call the handler directly when there is no middleware', async () => {
+    const handler = vi.fn().mockResolvedValue({ status: 204, headers: new Headers(), body: null });
+    const response = await composeMiddleware([], handler)({} as RequestContext);
+    expect(response.status).toBe(204);
+  });
+});
+
+describe('client middleware', () => {
+  it('should expose the request and allow adding headers', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(jsonResponse(200, { id: 'job-1' }));
+    let seen: RequestContext | undefined;
+
+    const client = AllscreenshotsClient.builder()
+      .withApiKey('test-key')
+      .withAutoRetry(false)
+      .withFetch(mockFetch)
+      .withMiddleware(async (context, next) => {
+        seen = { ...context };
+        context.headers['X-Tenant-Id'] = 'tenant-42';
+        return next(context);
+      })
+      .build();
+
+    await client.getScheduleHistory('schedule-1', 5);
+
+    expect(seen).toMatchObject({
+      method: 'GET',
+      path: '/v1/schedules/schedule-1/history',
+      query: { limit: 5 },
+      url: 'https://api.allscreenshots.com/v1/schedules/schedule-1/history?limit=5',
+      binary: false,
+      attempt: 1,
+    });
+    expect(mockFetch).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.objectContaining({
+        headers: expect.objectContaining({ 'X-Tenant-Id': 'tenant-42' }),
+      })
+    );
+  });
+
+  it('should expose the parsed response', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(jsonResponse(200, { id: 'job-1', status: 'QUEUED' }));
+    const onResponse = vi.fn();
+
+    const client = new AllscreenshotsClient({
+      apiKey: 'test-key',
+      autoRetry: false,
+      fetch: mockFetch,
+      middleware: [
+        async (context, next) => {
+          const response = await next(context);
+          onResponse(response.status, response.headers.get('Content-Type'), response.body);
+          return response;
+        },
+      ],
+    });
+
+    await client.getJob('job-1');
+
+    expect(onResponse).toHaveBeenCalledWith(200, 'application/json', { id: 'job-1', status: 'QUEUED' });
+  });
+
+  it('should allow short-circuiting the request', async () => {
+    const mockFetch = vi.fn();
+    const client = new AllscreenshotsClient({
+      apiKey: 'test-key',
+      fetch: mockFetch,
+      middleware: [async () => ({ status: 200, headers: new Headers(), body: { id: 'cached' } })],
+    });
+
+    const job = await client.getJob('job-1');
+
+    expect(job).toEqual({ id: 'cached' });
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should let middleware see and rewrite error responses', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(jsonResponse(404, { message: 'Missing' }));
+    const statuses: number[] = [];
+
+    const client = new AllscreenshotsClient({
+      apiKey: 'test-key',
+      autoRetry: false,
+      fetch: mockFetch,
+      middleware: [
+        async (context, next) => {
+          const response = await next(context);
+          statuses.push(response.status);
+          return response;
+        },
+      ],
+    });
+
+    await expect(client.getJob('job-1')).rejects.toThrow(NotFoundError);
+    expect(statuses).toEqual([404]);
+
+    const rewriting = new AllscreenshotsClient({
+      apiKey: 'test-key',
+      autoRetry: false,
+      fetch: mockFetch,
+      middleware: [
+        async (context, next) => {
+          const response = await next(context);
+          return response.status === 404 ? { ...response, status: 200, body: null } : response;
+        },
+      ],
+    });
+
+    await expect(rewriting.getJob('job-1')).resolves.toBeNull();
+  });
+
+  it('should run the chain for every retry attempt', async () => {
+    const mockFetch = vi.fn()
+      .mockResolvedValueOnce(jsonResponse(503, { message: 'Unavailable' }))
+      .mockResolvedValueOnce(jsonResponse(503, { message: 'Unavailable' }))
+      .mockResolvedValue(jsonResponse(200, { id: 'job-1' }));
+    const attempts: Array<[number, number]> = [];
+
+    const client = new AllscreenshotsClient({
+      apiKey: 'test-key',
+      fetch: mockFetch,
+      retry: { maxRetries: 3, initialDelayMs: 1, jitterFactor: 0 },
+      middleware: [
+        async (context, next) => {
+          const response = await next(context);
+          attempts.push([context.attempt, response.status]);
+          return response;
+        },
+      ],
+    });
+
+    await client.getJob('job-1');
+
+    expect(attempts).toEqual([[1, 503], [2, 503], [3, 200]]);
+  });
+});
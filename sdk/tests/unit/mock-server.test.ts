@@ -0,0 +1,286 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  AllscreenshotsClient,
+  AuthenticationError,
+  NetworkError,
+  NotFoundError,
+  QuotaExceededError,
+  RateLimitError,
+  ServerError,
+  ValidationError,
+  type ComposeJobStatusResponse,
+} from '../../src/index.js';
+import { MockServer } from '../../src/testing/index.js';
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47];
+
+describe('MockServer', () => {
+  let server: MockServer;
+  let client: AllscreenshotsClient;
+
+  beforeEach(() => {
+    server = new MockServer();
+    client = new AllscreenshotsClient({
+      apiKey: 'test-key',
+      fetch: server.fetch,
+      retry: { maxRetries: 2, initialDelayMs: 1 },
+    });
+  });
+
+  describe('screenshots', () => {
+    it('should return placeholder PNG bytes', async () => {
+      const image = await client.screenshot({ url: 'https://example.com' });
+
+      expect([...image.subarray(0, 4)]).toEqual(PNG_SIGNATURE);
+      expect(server.requests).toEqual([
+        expect.objectContaining({
+          method: 'POST',
+          path: '/v1/screenshots',
+          body: { url: 'https://example.com' },
+          headers: expect.objectContaining({ 'x-api-key': 'test-key' }),
+        }),
+      ]);
+    });
+
+    it('should return a placeholder PDF for PDF captures', async () => {
+      const pdf = await client.screenshot({ url: 'https://example.com', format: 'pdf' });
+
+      expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+    });
+
+    it('should reject invalid URLs with validation errors', async () => {
+      const error = await client.screenshot({ url: 'example.com' }).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect((error as ValidationError).validationErrors).toEqual({
+        url: 'URL must start with http:// or https://',
+      });
+    });
+
+    it('should reject unknown API keys', async () => {
+      server = new MockServer({ apiKeys: ['valid-key'] });
+      client = new AllscreenshotsClient({ apiKey: 'other-key', fetch: server.fetch });
+
+      await expect(client.getUsage()).rejects.toThrow(AuthenticationError);
+    });
+
+    it('should fail with 402 once the quota is used up', async () => {
+      server = new MockServer({ quota: 1 });
+      client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: server.fetch });
+
+      await client.screenshot({ url: 'https://example.com' });
+
+      await expect(client.screenshot({ url: 'https://example.com' })).rejects.toThrow(QuotaExceededError);
+      await expect(client.getQuotaStatus()).resolves.toMatchObject({
+        screenshots: { limit: 1, used: 1, remaining: 0, percentUsed: 100 },
+      });
+    });
+  });
+
+  describe('async jobs', () => {
+    it('should move jobs from QUEUED through PROCESSING to COMPLETED', async () => {
+      const created = await client.screenshotAsync({ url: 'https://example.com' });
+
+      expect(created).toMatchObject({ id: 'job_1', status: 'QUEUED' });
+      await expect(client.getJobResult(created.id)).rejects.toMatchObject({ statusCode: 409 });
+
+      expect((await client.getJob(created.id)).status).toBe('PROCESSING');
+      const job = await client.getJob(created.id);
+      expect(job).toMatchObject({ status: 'COMPLETED', resultUrl: expect.stringContaining('/result') });
+
+      const image = await client.getJobResult(created.id);
+      expect([...image.subarray(0, 4)]).toEqual(PNG_SIGNATURE);
+    });
+
+    it('should stay PROCESSING for the configured number of polls', async () => {
+      server = new MockServer({ processingPolls: 3 });
+      client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: server.fetch });
+      const { id } = await client.screenshotAsync({ url: 'https://example.com' });
+
+      const statuses: string[] = [];
+      for (let i = 0; i < 4; i++) {
+        statuses.push((await client.getJob(id)).status);
+      }
+
+      expect(statuses).toEqual(['PROCESSING', 'PROCESSING', 'PROCESSING', 'COMPLETED']);
+    });
+
+    it('should let tests complete or fail jobs directly', async () => {
+      const first = await client.screenshotAsync({ url: 'https://example.com' });
+      const second = await client.screenshotAsync({ url: 'https://example.org' });
+
+      server.completeJob(first.id);
+      server.failJob(second.id, 'Navigation timed out', 'NAVIGATION_TIMEOUT');
+
+      expect((await client.getJob(first.id)).status).toBe('COMPLETED');
+      expect(await client.getJob(second.id)).toMatchObject({
+        status: 'FAILED',
+        errorCode: 'NAVIGATION_TIMEOUT',
+        errorMessage: 'Navigation timed out',
+      });
+      expect(await client.listJobs()).toHaveLength(2);
+    });
+
+    it('should cancel jobs and return 404 for unknown ones', async () => {
+      const { id } = await client.screenshotAsync({ url: 'https://example.com' });
+
+      expect((await client.cancelJob(id)).status).toBe('CANCELLED');
+      await expect(client.getJob('job_99')).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('bulk jobs', () => {
+    it('should track progress across child jobs', async () => {
+      const bulk = await client.createBulkJob({
+        urls: [{ url: 'https://example.com' }, { url: 'https://example.org' }],
+      });
+
+      expect(bulk).toMatchObject({ id: 'bulk_1', status: 'QUEUED', totalJobs: 2, jobs: [{ id: 'job_1' }, { id: 'job_2' }] });
+      expect((await client.getBulkJob(bulk.id)).status).toBe('PROCESSING');
+
+      const status = await client.getBulkJob(bulk.id);
+      expect(status).toMatchObject({ status: 'COMPLETED', completedJobs: 2, progress: 100 });
+      expect(status.jobs.every((job) => job.status === 'COMPLETED')).toBe(true);
+      expect(await client.listBulkJobs()).toHaveLength(1);
+    });
+
+    it('should cancel all child jobs', async () => {
+      const bulk = await client.createBulkJob({ urls: [{ url: 'https://example.com' }] });
+
+      expect(await client.cancelBulkJob(bulk.id)).toMatchObject({ status: 'CANCELLED' });
+      expect((await client.getJob('job_1')).status).toBe('CANCELLED');
+    });
+  });
+
+  describe('compose', () => {
+    it('should compose synchronously', async () => {
+      const result = await client.compose({
+        captures: [{ url: 'https://example.com' }, { url: 'https://example.org' }],
+        output: { layout: 'HORIZONTAL' },
+      });
+
+      expect(result).toMatchObject({ layout: 'HORIZONTAL', metadata: { totalCaptures: 2 } });
+    });
+
+    it('should complete async compose jobs as they are polled', async () => {
+      const job = await client.compose({
+        url: 'https://example.com',
+        variants: [{ device: 'iPhone 14' }, { device: 'Desktop HD' }],
+        async: true,
+      }) as ComposeJobStatusResponse;
+
+      expect(job.status).toBe('QUEUED');
+      expect((await client.getComposeJob(job.jobId)).status).toBe('PROCESSING');
+      const done = await client.getComposeJob(job.jobId);
+      expect(done).toMatchObject({ status: 'COMPLETED', progress: 100, completedCaptures: 2 });
+      expect(done.result?.metadata?.totalCaptures).toBe(2);
+      expect(await client.listComposeJobs()).toEqual([expect.objectContaining({ jobId: job.jobId, status: 'COMPLETED' })]);
+    });
+
+    it('should preview grid placements', async () => {
+      const preview = await client.previewLayout({ layout: 'GRID', imageCount: 4, canvasWidth: 1000, canvasHeight: 1000 });
+
+      expect(preview.placements).toEqual([
+        { index: 0, x: 0, y: 0, width: 500, height: 500 },
+        { index: 1, x: 500, y: 0, width: 500, height: 500 },
+        { index: 2, x: 0, y: 500, width: 500, height: 500 },
+        { index: 3, x: 500, y: 500, width: 500, height: 500 },
+      ]);
+    });
+  });
+
+  describe('schedules', () => {
+    it('should support the full schedule lifecycle', async () => {
+      const schedule = await client.createSchedule({
+        name: 'Homepage',
+        url: 'https://example.com',
+        schedule: '0 9 * * *',
+      });
+      expect(schedule).toMatchObject({ id: 'schedule_1', status: 'ACTIVE', timezone: 'UTC' });
+
+      expect((await client.pauseSchedule(schedule.id)).status).toBe('PAUSED');
+      expect((await client.resumeSchedule(schedule.id)).status).toBe('ACTIVE');
+      expect((await client.updateSchedule(schedule.id, { name: 'Home' })).name).toBe('Home');
+
+      await client.triggerSchedule(schedule.id);
+      await client.triggerSchedule(schedule.id);
+      expect(await client.getSchedule(schedule.id)).toMatchObject({ executionCount: 2, successCount: 2 });
+
+      const history = await client.getScheduleHistory(schedule.id, 1);
+      expect(history).toMatchObject({ totalExecutions: 2, executions: [{ id: 'execution_2', status: 'COMPLETED' }] });
+
+      expect((await client.listSchedules()).total).toBe(1);
+      await client.deleteSchedule(schedule.id);
+      await expect(client.getSchedule(schedule.id)).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('usage', () => {
+    it('should report screenshots and bandwidth used', async () => {
+      server = new MockServer({ quota: 10, tier: 'STARTER' });
+      client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: server.fetch });
+
+      const image = await client.screenshot({ url: 'https://example.com' });
+      await client.screenshotAsync({ url: 'https://example.com' });
+
+      const usage = await client.getUsage();
+      expect(usage).toMatchObject({
+        tier: 'STARTER',
+        currentPeriod: { screenshotsCount: 2, bandwidthBytes: image.length },
+        quota: { screenshots: { limit: 10, used: 2, remaining: 8 } },
+      });
+    });
+  });
+
+  describe('error injection', () => {
+    it('should return 429 with Retry-After', async () => {
+      client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: server.fetch, autoRetry: false });
+      server.failNext({ status: 429, retryAfter: 7 });
+
+      const error = await client.getUsage().catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect((error as RateLimitError).retryAfter).toBe(7);
+      await expect(client.getUsage()).resolves.toBeDefined();
+    });
+
+    it('should let the client retry injected server errors', async () => {
+      server.failNext({ status: 503, times: 2 });
+
+      await expect(client.getUsage()).resolves.toBeDefined();
+      expect(server.requests).toHaveLength(3);
+    });
+
+    it('should only fail matching requests', async () => {
+      client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: server.fetch, autoRetry: false });
+      server.failNext({ status: 500, method: 'GET', path: /^\/v1\/screenshots\/jobs\// });
+      server.failNext({ status: 402, path: '/v1/screenshots' });
+
+      const { id } = await client.screenshotAsync({ url: 'https://example.com' });
+      await expect(client.screenshot({ url: 'https://example.com' })).rejects.toThrow(QuotaExceededError);
+      await expect(client.getJob(id)).rejects.toThrow(ServerError);
+    });
+
+    it('should fail requests to other hosts like a network error', async () => {
+      client = new AllscreenshotsClient({
+        apiKey: 'test-key',
+        baseUrl: 'https://other.example.com',
+        fetch: server.fetch,
+        autoRetry: false,
+      });
+
+      await expect(client.getUsage()).rejects.toThrow(NetworkError);
+    });
+  });
+
+  it('should clear state on reset', async () => {
+    await client.screenshotAsync({ url: 'https://example.com' });
+    server.failNext({ status: 500 });
+
+    server.reset();
+
+    expect(server.requests).toHaveLength(0);
+    expect(await client.listJobs()).toEqual([]);
+    expect((await client.screenshotAsync({ url: 'https://example.com' })).id).toBe('job_1');
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AllscreenshotsClient, NetworkError } from '../../src/index.js';
+import { classifyNetworkError, toNetworkError } from '../../src/utils/network.js';
+
+/** Shape of the errors thrown by undici's fetch in Node.js */
+const undiciError = (message: string, code: string) =>
+  new TypeError('fetch failed', { cause: Object.assign(new Error(message), { code }) });
+
+describe('classifyNetworkError', () => {
+  it('should classify Node.js error codes', () => {
+    expect(classifyNetworkError(undiciError('getaddrinfo ENOTFOUND api.example.com', 'ENOTFOUND'))).toBe('dns');
+    expect(classifyNetworkError(undiciError('connect ECONNREFUSED 127.0.0.1:443', 'ECONNREFUSED'))).toBe('connection_refused');
+    expect(classifyNetworkError(undiciError('Connect Timeout Error', 'UND_ERR_CONNECT_TIMEOUT'))).toBe('connection_timeout');
+    expect(classifyNetworkError(undiciError('read ECONNRESET', 'ECONNRESET'))).toBe('connection_reset');
+    expect(classifyNetworkError(undiciError('other side closed', 'UND_ERR_SOCKET'))).toBe('connection_reset');
+    expect(classifyNetworkError(undiciError('certificate has expired', 'CERT_HAS_EXPIRED'))).toBe('tls');
+    expect(classifyNetworkError(undiciError('self-signed certificate', 'DEPTH_ZERO_SELF_SIGNED_CERT'))).toBe('tls');
+    expect(classifyNetworkError(undiciError("Hostname/IP does not match certificate's altnames", 'ERR_TLS_CERT_ALTNAME_INVALID'))).toBe('tls');
+  });
+
+  it('should look into AggregateErrors of multi-address connections', () => {
+    const refused = Object.assign(new Error('connect ECONNREFUSED ::1:443'), { code: 'ECONNREFUSED' });
+    const error = new TypeError('fetch failed', { cause: new AggregateError([refused], '') });
+
+    expect(classifyNetworkError(error)).toBe('connection_refused');
+  });
+
+  it('should fall back to messages of runtimes without error codes', () => {
+    expect(classifyNetworkError(new TypeError('error sending request: dns error: failed to lookup address'))).toBe('dns');
+    expect(classifyNetworkError(new TypeError('invalid peer certificate: UnknownIssuer'))).toBe('tls');
+    expect(classifyNetworkError(new TypeError('Connection refused (os error 111)'))).toBe('connection_refused');
+    expect(classifyNetworkError(new TypeError('Failed to fetch'))).toBe('unknown');
+    expect(classifyNetworkError('not an error')).toBe('unknown');
+  });
+
+  it('should classify every failure after the response arrived as an interrupted body', () => {
+    expect(classifyNetworkError(undiciError('read ECONNRESET', 'ECONNRESET'), 'body')).toBe('body_interrupted');
+  });
+});
+
+describe('toNetworkError', () => {
+  it('should keep the cause and include nested messages', () => {
+    const cause = undiciError('getaddrinfo ENOTFOUND api.example.com', 'ENOTFOUND');
+
+    const error = toNetworkError(cause);
+
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error.message).toBe('Network error: fetch failed: getaddrinfo ENOTFOUND api.example.com');
+    expect(error.kind).toBe('dns');
+    expect(error.cause).toBe(cause);
+    expect(error.isRetryable).toBe(true);
+  });
+
+  it('should not mark TLS failures as retryable', () => {
+    expect(toNetworkError(undiciError('certificate has expired', 'CERT_HAS_EXPIRED')).isRetryable).toBe(false);
+  });
+
+  it('should describe failures without a message as unknown', () => {
+    const error = toNetworkError(42);
+
+    expect(error.message).toBe('Unknown network error occurred');
+    expect(error.cause).toBe(42);
+  });
+});
+
+describe('client network errors', () => {
+  it('should retry connection failures but not TLS failures', async () => {
+    const mockFetch = vi.fn()
+      .mockRejectedValueOnce(undiciError('read ECONNRESET', 'ECONNRESET'))
+      .mockRejectedValueOnce(undiciError('certificate has expired', 'CERT_HAS_EXPIRED'));
+    const client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: mockFetch, retry: { initialDelayMs: 1 } });
+
+    const error = await client.getJob('job-1').catch((e: unknown) => e) as NetworkError;
+
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error.kind).toBe('tls');
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should report failures while reading the body as interrupted', async () => {
+    const cause = undiciError('other side closed', 'UND_ERR_SOCKET');
+    const body = new ReadableStream<Uint8Array>({
+      start: (controller) => controller.error(cause),
+    });
+    const mockFetch = vi.fn().mockResolvedValue(new Response(body, { status: 200 }));
+    const client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: mockFetch, autoRetry: false });
+
+    const error = await client.getJob('job-1').catch((e: unknown) => e) as NetworkError;
+
+    expect(error.kind).toBe('body_interrupted');
+    expect(error.cause).toBe(cause);
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  AbortError,
+  AllscreenshotsClient,
+  JobCancelledError,
+  JobFailedError,
+  TimeoutError,
+  isAllscreenshotsError,
+  type JobResponse,
+} from '../../src/index.js';
+import { pollUntil } from '../../src/utils/poll.js';
+import { MockServer } from '../../src/testing/index.js';
+
+describe('pollUntil', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should back off between polls up to the maximum interval', async () => {
+    const check = vi.fn().mockResolvedValue(0);
+    const done = pollUntil(check, () => check.mock.calls.length === 5, {
+      pollInterval: 100,
+      backoff: 2,
+      maxPollInterval: 300,
+    });
+
+    const calls: number[] = [];
+    for (const ms of [0, 100, 200, 300, 300]) {
+      await vi.advanceTimersByTimeAsync(ms);
+      calls.push(check.mock.calls.length);
+    }
+
+    expect(calls).toEqual([1, 2, 3, 4, 5]);
+    await expect(done).resolves.toBe(0);
+  });
+
+  it('should time out and call onStop', async () => {
+    const onStop = vi.fn().mockResolvedValue(undefined);
+    const done = pollUntil(() => Promise.resolve(0), () => false, { pollInterval: 100, timeout: 250 }, { onStop });
+    const assertion = expect(done).rejects.toThrow(new TimeoutError('Gave up waiting after 250ms'));
+
+    await vi.advanceTimersByTimeAsync(250);
+
+    await assertion;
+    expect(onStop).toHaveBeenCalledTimes(1);
+  });
+
+  it('should pass through errors of the check', async () => {
+    const onStop = vi.fn();
+    const error = new Error('Boom');
+
+    await expect(pollUntil(() => Promise.reject(error), () => true, {}, { onStop })).rejects.toBe(error);
+    expect(onStop).not.toHaveBeenCalled();
+  });
+});
+
+describe('waitForJob', () => {
+  let server: MockServer;
+  let client: AllscreenshotsClient;
+
+  beforeEach(() => {
+    server = new MockServer();
+    client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: server.fetch });
+  });
+
+  it('should resolve with the completed job and report progress', async () => {
+    const { id } = await client.screenshotAsync({ url: 'https://example.com' });
+    const statuses: string[] = [];
+
+    const job = await client.waitForJob(id, {
+      pollInterval: 1,
+      onProgress: (job: JobResponse) => statuses.push(job.status),
+    });
+
+    expect(job).toMatchObject({ id, status: 'COMPLETED' });
+    expect(statuses).toEqual(['PROCESSING', 'COMPLETED']);
+  });
+
+  it('should throw JobFailedError with the error code and message of the job', async () => {
+    const { id } = await client.screenshotAsync({ url: 'https://example.com' });
+    server.failJob(id, 'Navigation timed out', 'NAVIGATION_TIMEOUT');
+
+    const error = await client.waitForJob(id).catch((e: unknown) => e) as JobFailedError;
+
+    expect(error).toBeInstanceOf(JobFailedError);
+    expect(isAllscreenshotsError(error, 'JOB_FAILED')).toBe(true);
+    expect(error).toMatchObject({
+      jobId: id,
+      errorCode: 'JOB_FAILED',
+      jobErrorCode: 'NAVIGATION_TIMEOUT',
+      errorMessage: 'Navigation timed out',
+      message: `Job ${id} failed: Navigation timed out`,
+    });
+  });
+
+  it('should throw JobCancelledError for cancelled jobs', async () => {
+    const { id } = await client.screenshotAsync({ url: 'https://example.com' });
+    await client.cancelJob(id);
+
+    await expect(client.waitForJob(id)).rejects.toThrow(JobCancelledError);
+  });
+
+  it('should cancel the job on the server when timing out if asked to', async () => {
+    server = new MockServer({ processingPolls: 1000 });
+    client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: server.fetch });
+    const { id } = await client.screenshotAsync({ url: 'https://example.com' });
+
+    await expect(client.waitForJob(id, { pollInterval: 1, backoff: 1, timeout: 20, cancelOnAbort: true }))
+      .rejects.toThrow(TimeoutError);
+
+    expect(server.requests.at(-1)).toMatchObject({ method: 'POST', path: `/v1/screenshots/jobs/${id}/cancel` });
+  });
+
+  it('should stop on abort without cancelling the job by default', async () => {
+    server = new MockServer({ processingPolls: 1000 });
+    client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: server.fetch });
+    const { id } = await client.screenshotAsync({ url: 'https://example.com' });
+    const controller = new AbortController();
+
+    const waiting = client.waitForJob(id, {
+      pollInterval: 1,
+      signal: controller.signal,
+      onProgress: () => controller.abort(),
+    });
+
+    await expect(waiting).rejects.toThrow(AbortError);
+    expect(server.requests.map((request) => request.method)).toEqual(['POST', 'GET']);
+    expect((await client.getJob(id)).status).toBe('PROCESSING');
+  });
+});
+
+describe('screenshotAsyncAndWait', () => {
+  let server: MockServer;
+  let client: AllscreenshotsClient;
+
+  beforeEach(() => {
+    server = new MockServer();
+    client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: server.fetch });
+  });
+
+  it('should create the job, wait for it and download the result', async () => {
+    const statuses: string[] = [];
+
+    const result = await client.screenshotAsyncAndWait(
+      { url: 'https://example.com', fullPage: true, format: 'pdf' },
+      { pollInterval: 1, onProgress: (job) => statuses.push(job.status) }
+    );
+
+    expect(result.image.subarray(0, 5).toString()).toBe('%PDF-');
+    expect(result.job).toMatchObject({ id: 'job_1', status: 'COMPLETED' });
+    expect(result.contentType).toBe('application/pdf');
+    expect(result.expiresAt).toBe(result.job.expiresAt);
+    expect(statuses).toEqual(['PROCESSING', 'COMPLETED']);
+    expect(server.requests[0]).toMatchObject({
+      method: 'POST',
+      path: '/v1/screenshots/async',
+      body: { url: 'https://example.com', fullPage: true, format: 'pdf' },
+    });
+  });
+
+  it('should only send the idempotency key when creating the job', async () => {
+    await client.screenshotAsyncAndWait({ url: 'https://example.com' }, { pollInterval: 1, idempotencyKey: 'capture-1' });
+
+    expect(server.requests.map((request) => request.headers['idempotency-key'])).toEqual(['capture-1', undefined, undefined, undefined]);
+  });
+
+  it('should not download the result of a failed job', async () => {
+    server = new MockServer({ processingPolls: 1000 });
+    client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: server.fetch });
+
+    const result = client.screenshotAsyncAndWait({ url: 'https://example.com' }, {
+      pollInterval: 1,
+      onProgress: (job) => server.failJob(job.id, 'Page crashed'),
+    });
+
+    await expect(result).rejects.toThrow(JobFailedError);
+    expect(server.requests.some((request) => request.path.endsWith('/result'))).toBe(false);
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AbortError, AllscreenshotsClient, RateLimiter } from '../../src/index.js';
+import { jsonResponse } from '../helpers/responses.js';
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const acquireAll = (limiter: RateLimiter, count: number) => {
+    const granted: number[] = [];
+    for (let i = 0; i < count; i++) {
+      limiter.acquire().then(() => granted.push(i));
+    }
+    return granted;
+  };
+
+  it('should reject invalid options', () => {
+    expect(() => new RateLimiter({ requestsPerInterval: 0 })).toThrow(RangeError);
+  });
+
+  it('should allow a burst up to capacity, then queue', async () => {
+    const limiter = new RateLimiter({ requestsPerInterval: 2, intervalMs: 1000 });
+    const granted = acquireAll(limiter, 4);
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(granted).toEqual([0, 1]);
+    expect(limiter.pending).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(granted).toEqual([0, 1, 2]);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(granted).toEqual([0, 1, 2, 3]);
+    expect(limiter.pending).toBe(0);
+  });
+
+  it('should respect a custom burst size', async () => {
+    const limiter = new RateLimiter({ requestsPerInterval: 10, intervalMs: 1000, burst: 1 });
+    const granted = acquireAll(limiter, 2);
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(granted).toEqual([0]);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(granted).toEqual([0, 1]);
+  });
+
+  it('should pause for Retry-After', async () => {
+    const limiter = new RateLimiter({ requestsPerInterval: 100 });
+    limiter.update({ retryAfter: 2 });
+    const granted = acquireAll(limiter, 1);
+
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(granted).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(granted).toEqual([0]);
+  });
+
+  it('should pause until reset when no requests remain', async () => {
+    const limiter = new RateLimiter({ requestsPerInterval: 100 });
+    const resetAt = Math.floor(Date.now() / 1000) + 5;
+    limiter.update({ remaining: 0, reset: resetAt });
+    const granted = acquireAll(limiter, 1);
+
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(granted).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(granted).toEqual([0]);
+  });
+
+  it('should accept reset as seconds from now', async () => {
+    const limiter = new RateLimiter({ requestsPerInterval: 100 });
+    limiter.update({ remaining: 0, reset: 3 });
+    const granted = acquireAll(limiter, 1);
+
+    await vi.advanceTimersByTimeAsync(2999);
+    expect(granted).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(granted).toEqual([0]);
+  });
+
+  it('should cap local tokens to the remaining requests reported by the server', async () => {
+    const limiter = new RateLimiter({ requestsPerInterval: 10, intervalMs: 1000 });
+    limiter.update({ remaining: 1 });
+    const granted = acquireAll(limiter, 3);
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(granted).toEqual([0]);
+  });
+
+  it('should reject a waiter when its signal aborts', async () => {
+    const limiter = new RateLimiter({ requestsPerInterval: 1, intervalMs: 60000 });
+    await limiter.acquire();
+
+    const controller = new AbortController();
+    const waiting = limiter.acquire(controller.signal);
+    controller.abort();
+
+    await expect(waiting).rejects.toThrow(AbortError);
+    expect(limiter.pending).toBe(0);
+  });
+});
+
+describe('client rate limiting', () => {
+  const jobResponse = (headers: Record<string, string> = {}) => jsonResponse(200, { id: 'job-1' }, headers);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should queue requests through a shared limiter', async () => {
+    const limiter = new RateLimiter({ requestsPerInterval: 1, intervalMs: 1000 });
+    const mockFetch = vi.fn().mockResolvedValue(jobResponse());
+    const clientA = new AllscreenshotsClient({ apiKey: 'key', fetch: mockFetch, rateLimiter: limiter });
+    const clientB = AllscreenshotsClient.builder()
+      .withApiKey('key')
+      .withFetch(mockFetch)
+      .withRateLimiter(limiter)
+      .build();
+
+    const results = Promise.all([clientA.getJob('a'), clientB.getJob('b'), clientA.getJob('c')]);
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    await expect(results).resolves.toHaveLength(3);
+  });
+
+  it('should adapt to rate-limit headers from the API', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(jobResponse({
+      'X-RateLimit-Remaining': '0',
+      'X-RateLimit-Reset': '10',
+    }));
+    const client = new AllscreenshotsClient({
+      apiKey: 'key',
+      fetch: mockFetch,
+      rateLimiter: { requestsPerInterval: 100 },
+    });
+
+    await client.getJob('a');
+    const second = client.getJob('b');
+
+    await vi.advanceTimersByTimeAsync(9000);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await second;
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { AllscreenshotsClient } from '../../src/index.js';
+import {
+  FixtureNotFoundError,
+  FixtureRecorder,
+  MockServer,
+  type FixtureFile,
+} from '../../src/testing/index.js';
+
+describe('FixtureRecorder', () => {
+  let dir: string;
+  let path: string;
+  let server: MockServer;
+
+  const recordingClient = (options: Partial<ConstructorParameters<typeof FixtureRecorder>[0]> = {}) => {
+    const recorder = new FixtureRecorder({ path, mode: 'record', fetch: server.fetch, ...options });
+    return { recorder, client: new AllscreenshotsClient({ apiKey: 'secret-key', fetch: recorder.fetch }) };
+  };
+
+  const replayingClient = (options: Partial<ConstructorParameters<typeof FixtureRecorder>[0]> = {}) => {
+    const recorder = new FixtureRecorder({ path, mode: 'replay', ...options });
+    return { recorder, client: new AllscreenshotsClient({ apiKey: 'other-key', fetch: recorder.fetch }) };
+  };
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'allscreenshots-'));
+    path = join(dir, 'fixtures', 'session.json');
+    server = new MockServer();
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should replay recorded JSON and binary responses without network access', async () => {
+    const { client: recording } = recordingClient();
+    const image = await recording.screenshot({ url: 'https://example.com' });
+    const usage = await recording.getUsage();
+
+    const offlineFetch = vi.fn();
+    vi.stubGlobal('fetch', offlineFetch);
+    try {
+      const { client, recorder } = replayingClient();
+
+      expect(await client.screenshot({ url: 'https://example.com' })).toEqual(image);
+      expect(await client.getUsage()).toEqual(usage);
+      expect(recorder.unused).toEqual([]);
+      expect(offlineFetch).not.toHaveBeenCalled();
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it('should store binary bodies as base64 and JSON bodies as text', async () => {
+    const { client } = recordingClient();
+    await client.screenshot({ url: 'https://example.com' });
+    await client.getUsage();
+
+    const file = JSON.parse(await readFile(path, 'utf8')) as FixtureFile;
+
+    expect(file.version).toBe(1);
+    expect(file.interactions.map(({ response }) => response.encoding)).toEqual(['base64', 'utf8']);
+    expect(file.interactions[0]!.request).toMatchObject({
+      method: 'POST',
+      path: '/v1/screenshots',
+      body: { url: 'https://example.com' },
+    });
+  });
+
+  it('should redact API keys and webhook secrets', async () => {
+    const { client } = recordingClient({ redactHeaders: ['X-Tenant'], redactFields: ['name'] });
+    await client.createSchedule(
+      { name: 'Homepage', url: 'https://example.com', schedule: '0 9 * * *', webhookSecret: 'whsec_123' },
+      { headers: { 'X-Tenant': 'acme' } }
+    );
+
+    const text = await readFile(path, 'utf8');
+    const { request, response } = (JSON.parse(text) as FixtureFile).interactions[0]!;
+
+    expect(text).not.toContain('secret-key');
+    expect(text).not.toContain('whsec_123');
+    expect(request.headers['x-api-key']).toBe('[REDACTED]');
+    expect(request.headers['x-tenant']).toBe('[REDACTED]');
+    expect(request.body).toMatchObject({ name: '[REDACTED]', webhookSecret: '[REDACTED]' });
+    expect(JSON.parse(response.body)).toMatchObject({ name: '[REDACTED]' });
+  });
+
+  it('should replay repeated requests in recorded order', async () => {
+    const { client: recording } = recordingClient();
+    const { id } = await recording.screenshotAsync({ url: 'https://example.com' });
+    await recording.getJob(id);
+    await recording.getJob(id);
+
+    const { client } = replayingClient();
+    await client.screenshotAsync({ url: 'https://example.com' });
+
+    expect((await client.getJob(id)).status).toBe('PROCESSING');
+    expect((await client.getJob(id)).status).toBe('COMPLETED');
+  });
+
+  it('should match requests with differently ordered body keys', async () => {
+    const { client: recording } = recordingClient();
+    await recording.screenshot({ url: 'https://example.com', fullPage: true });
+
+    const { client } = replayingClient();
+
+    await expect(client.screenshot({ fullPage: true, url: 'https://example.com' })).resolves.toBeDefined();
+  });
+
+  it('should fail clearly when no recording matches', async () => {
+    const { client: recording } = recordingClient();
+    await recording.screenshot({ url: 'https://example.com' });
+
+    const { client } = replayingClient();
+    const error = await client.screenshot({ url: 'https://example.org' }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(FixtureNotFoundError);
+    expect((error as FixtureNotFoundError).message).toContain(
+      'No recorded response for POST /v1/screenshots with body {"url":"https://example.org"}'
+    );
+    expect((error as FixtureNotFoundError).request.headers['x-api-key']).toBe('[REDACTED]');
+  });
+
+  it('should fail clearly when the fixture file is missing', async () => {
+    const { client } = replayingClient();
+
+    await expect(client.getUsage()).rejects.toThrow(/does not exist\. Record it first/);
+  });
+
+  it('should support custom matching rules', async () => {
+    const { client: recording } = recordingClient();
+    await recording.screenshot({ url: 'https://example.com' });
+
+    const { client } = replayingClient({ match: ['method', 'path'] });
+
+    await expect(client.screenshot({ url: 'https://example.org' })).resolves.toBeDefined();
+  });
+});
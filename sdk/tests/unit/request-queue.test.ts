@@ -0,0 +1,165 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AbortError, AllscreenshotsClient, RequestQueue } from '../../src/index.js';
+
+interface Deferred {
+  promise: Promise<string>;
+  resolve: (value: string) => void;
+  reject: (error: unknown) => void;
+}
+
+const deferred = (): Deferred => {
+  let resolve!: (value: string) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<string>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('RequestQueue', () => {
+  it('should reject invalid concurrency', () => {
+    expect(() => new RequestQueue(0)).toThrow(RangeError);
+    expect(() => new RequestQueue(1.5)).toThrow(RangeError);
+  });
+
+  it('should limit the number of active tasks', async () => {
+    const queue = new RequestQueue(2);
+    const tasks = [deferred(), deferred(), deferred()];
+    const results = tasks.map((task) => queue.add(() => task.promise));
+
+    expect(queue.stats).toEqual({ pending: 1, active: 2, completed: 0, failed: 0 });
+
+    tasks[0]!.resolve('a');
+    await flush();
+    expect(queue.stats).toEqual({ pending: 0, active: 2, completed: 1, failed: 0 });
+
+    tasks[1]!.reject(new Error('b'));
+    tasks[2]!.resolve('c');
+    await Promise.allSettled(results);
+    await flush();
+
+    expect(queue.stats).toEqual({ pending: 0, active: 0, completed: 2, failed: 1 });
+    await expect(results[0]).resolves.toBe('a');
+    await expect(results[1]).rejects.toThrow('b');
+  });
+
+  it('should start higher priority tasks first', async () => {
+    const queue = new RequestQueue(1);
+    const blocker = deferred();
+    const order: string[] = [];
+
+    queue.add(() => blocker.promise);
+    const run = (name: string, priority?: number) =>
+      queue.add(async () => {
+        order.push(name);
+        return name;
+      }, { priority });
+
+    const all = Promise.all([
+      run('batch-1'),
+      run('batch-2'),
+      run('interactive', 10),
+      run('background', -1),
+    ]);
+
+    blocker.resolve('done');
+    await all;
+
+    expect(order).toEqual(['interactive', 'batch-1', 'batch-2', 'background']);
+  });
+
+  it('should remove aborted tasks before they start', async () => {
+    const queue = new RequestQueue(1);
+    const blocker = deferred();
+    const task = vi.fn();
+    const controller = new AbortController();
+
+    queue.add(() => blocker.promise);
+    const aborted = queue.add(task, { signal: controller.signal });
+    controller.abort();
+
+    await expect(aborted).rejects.toThrow(AbortError);
+    expect(queue.stats.pending).toBe(0);
+
+    blocker.resolve('done');
+    await queue.onIdle();
+    expect(task).not.toHaveBeenCalled();
+  });
+
+  it('should resolve drain() when all tasks started and onIdle() when all finished', async () => {
+    const queue = new RequestQueue(1);
+    const first = deferred();
+    const second = deferred();
+    const events: string[] = [];
+
+    queue.add(() => first.promise);
+    queue.add(() => second.promise);
+    queue.drain().then(() => events.push('drain'));
+    queue.onIdle().then(() => events.push('idle'));
+
+    first.resolve('a');
+    await flush();
+    expect(events).toEqual(['drain']);
+
+    second.resolve('b');
+    await flush();
+    expect(events).toEqual(['drain', 'idle']);
+  });
+
+  it('should resolve drain() and onIdle() immediately when empty', async () => {
+    const queue = new RequestQueue(1);
+    await expect(queue.drain()).resolves.toBeUndefined();
+    await expect(queue.onIdle()).resolves.toBeUndefined();
+  });
+});
+
+describe('client concurrency', () => {
+  it('should not expose a queue by default', () => {
+    expect(new AllscreenshotsClient({ apiKey: 'key' }).queue).toBeUndefined();
+  });
+
+  it('should limit requests in flight and honor priorities', async () => {
+    const responses: Array<() => void> = [];
+    const requested: string[] = [];
+    const mockFetch = vi.fn((url: string) => {
+      requested.push(url.split('/').pop()!);
+      return new Promise((resolve) => {
+        responses.push(() => resolve({
+          ok: true,
+          status: 200,
+          headers: new Headers(),
+          text: () => Promise.resolve('{}'),
+        }));
+      });
+    });
+    const client = AllscreenshotsClient.builder()
+      .withApiKey('key')
+      .withFetch(mockFetch)
+      .withMaxConcurrency(1)
+      .build();
+
+    const calls = [
+      client.getJob('first'),
+      client.getJob('batch'),
+      client.getJob('interactive', { priority: 5 }),
+    ];
+    await flush();
+
+    expect(requested).toEqual(['first']);
+    expect(client.queue?.stats).toMatchObject({ pending: 2, active: 1 });
+
+    responses[0]!();
+    await flush();
+    responses[1]!();
+    await flush();
+    responses[2]!();
+    await Promise.all(calls);
+    await client.queue?.onIdle();
+
+    expect(requested).toEqual(['first', 'interactive', 'batch']);
+    expect(client.queue?.stats).toEqual({ pending: 0, active: 0, completed: 3, failed: 0 });
+  });
+});
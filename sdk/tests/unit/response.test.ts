@@ -0,0 +1,124 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  AllscreenshotsClient,
+  ApiPromise,
+  RateLimitError,
+  type ApiResult,
+} from '../../src/index.js';
+import { parseResponseMetadata } from '../../src/utils/response.js';
+import { jsonResponse } from '../helpers/responses.js';
+
+const result = <T>(data: T): ApiResult<T> => ({
+  data,
+  response: parseResponseMetadata(200, new Headers(), 1),
+});
+
+describe('parseResponseMetadata', () => {
+  it('should extract request ID, rate limits and content type', () => {
+    const metadata = parseResponseMetadata(200, new Headers({
+      'X-Request-Id': 'req-123',
+      'X-RateLimit-Limit': '100',
+      'X-RateLimit-Remaining': '42',
+      'X-RateLimit-Reset': '1700000000',
+      'Content-Type': 'image/png',
+    }), 2);
+
+    expect(metadata).toMatchObject({
+      status: 200,
+      requestId: 'req-123',
+      rateLimit: { limit: 100, remaining: 42, reset: 1700000000 },
+      contentType: 'image/png',
+      attempts: 2,
+    });
+  });
+
+  it('should leave missing or malformed headers undefined', () => {
+    const metadata = parseResponseMetadata(204, new Headers({ 'X-RateLimit-Remaining': 'soon' }), 1);
+
+    expect(metadata.requestId).toBeUndefined();
+    expect(metadata.contentType).toBeUndefined();
+    expect(metadata.rateLimit).toEqual({ limit: undefined, remaining: undefined, reset: undefined });
+  });
+});
+
+describe('ApiPromise', () => {
+  it('should resolve with the data when awaited', async () => {
+    const promise = new ApiPromise(Promise.resolve(result('data')));
+
+    expect(promise).toBeInstanceOf(Promise);
+    await expect(promise).resolves.toBe('data');
+  });
+
+  it('should resolve with data and response from withResponse()', async () => {
+    const promise = new ApiPromise(Promise.resolve(result({ id: 'job-1' })));
+
+    const { data, response } = await promise.withResponse();
+
+    expect(data).toEqual({ id: 'job-1' });
+    expect(response.status).toBe(200);
+  });
+
+  it('should propagate rejections through then, catch and finally', async () => {
+    const error = new Error('failed');
+    const onFinally = vi.fn();
+
+    await expect(new ApiPromise(Promise.reject(error))).rejects.toBe(error);
+    await expect(new ApiPromise(Promise.reject(error)).catch((e) => e)).resolves.toBe(error);
+    await expect(new ApiPromise(Promise.reject(error)).finally(onFinally)).rejects.toBe(error);
+    expect(onFinally).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('client response metadata', () => {
+  it('should expose response metadata through withResponse()', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(jsonResponse(200, { id: 'job-1' }, {
+      'X-Request-Id': 'req-abc',
+      'X-RateLimit-Remaining': '9',
+    }));
+    const client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: mockFetch });
+
+    const { data, response } = await client.getJob('job-1').withResponse();
+
+    expect(data).toEqual({ id: 'job-1' });
+    expect(response.requestId).toBe('req-abc');
+    expect(response.rateLimit.remaining).toBe(9);
+    expect(response.contentType).toBe('application/json');
+    expect(response.attempts).toBe(1);
+  });
+
+  it('should count retry attempts', async () => {
+    const mockFetch = vi.fn()
+      .mockResolvedValueOnce(jsonResponse(502, { message: 'Bad gateway' }))
+      .mockResolvedValue(jsonResponse(200, { id: 'job-1' }));
+    const client = new AllscreenshotsClient({
+      apiKey: 'test-key',
+      fetch: mockFetch,
+      retry: { initialDelayMs: 1 },
+    });
+
+    const { response } = await client.getJob('job-1').withResponse();
+
+    expect(response.attempts).toBe(2);
+  });
+
+  it('should attach response metadata to API errors', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(jsonResponse(429, { message: 'Slow down' }, {
+      'X-Request-Id': 'req-limited',
+      'X-RateLimit-Limit': '60',
+      'X-RateLimit-Remaining': '0',
+    }));
+    const client = new AllscreenshotsClient({ apiKey: 'test-key', autoRetry: false, fetch: mockFetch });
+
+    const error = await client.screenshot({ url: 'https://example.com' }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.response).toMatchObject({
+      status: 429,
+      requestId: 'req-limited',
+      rateLimit: { limit: 60, remaining: 0 },
+      attempts: 1,
+    });
+    expect(error.requestId).toBe('req-limited');
+    expect(error.rawBody).toEqual({ message: 'Slow down' });
+  });
+});
@@ -3,9 +3,14 @@ import {
   calculateDelay,
   isRetryableError,
   withRetry,
+  sleep,
+  parseRetryAfter,
   DEFAULT_RETRY_CONFIG,
 } from '../../src/utils/retry.js';
+import { RetryBudget } from '../../src/utils/retry-budget.js';
 import {
+  AbortError,
+  CircuitOpenError,
   RateLimitError,
   ServerError,
   NetworkError,
@@ -79,6 +84,10 @@ describe('retry utilities', () => {
       expect(isRetryableError(new AuthenticationError())).toBe(false);
     });
 
+    it('should return false for CircuitOpenError', () => {
+      expect(isRetryableError(new CircuitOpenError())).toBe(false);
+    });
+
     it('should return false for generic errors', () => {
       expect(isRetryableError(new Error('Generic error'))).toBe(false);
     });
@@ -156,5 +165,149 @@ describe('retry utilities', () => {
       const result = await resultPromise;
       expect(result).toBe('success');
     });
+
+    it('should pass the attempt number to the function', async () => {
+      const fn = vi.fn()
+        .mockRejectedValueOnce(new ServerError())
+        .mockResolvedValue('success');
+
+      const resultPromise = withRetry(fn, { maxRetries: 1 });
+      await vi.runAllTimersAsync();
+      await resultPromise;
+
+      expect(fn.mock.calls).toEqual([[1], [2]]);
+    });
+
+    it('should use a custom shouldRetry predicate', async () => {
+      const shouldRetry = vi.fn((error: unknown) => error instanceof ValidationError);
+      const fn = vi.fn()
+        .mockRejectedValueOnce(new ValidationError('Eventually consistent'))
+        .mockResolvedValue('success');
+
+      const resultPromise = withRetry(fn, { maxRetries: 1, shouldRetry });
+      await vi.runAllTimersAsync();
+
+      await expect(resultPromise).resolves.toBe('success');
+      expect(shouldRetry).toHaveBeenCalledWith(expect.any(ValidationError), 1);
+
+      const serverFailure = vi.fn().mockRejectedValue(new ServerError());
+      await expect(withRetry(serverFailure, { maxRetries: 3, shouldRetry })).rejects.toThrow(ServerError);
+      expect(serverFailure).toHaveBeenCalledTimes(1);
+    });
+
+    it('should call onRetry before each retry', async () => {
+      const onRetry = vi.fn();
+      const error = new ServerError();
+      const fn = vi.fn()
+        .mockRejectedValueOnce(error)
+        .mockRejectedValueOnce(error)
+        .mockResolvedValue('success');
+
+      const resultPromise = withRetry(fn, { maxRetries: 3, jitterFactor: 0, onRetry });
+      await vi.runAllTimersAsync();
+      await resultPromise;
+
+      expect(onRetry).toHaveBeenCalledTimes(2);
+      expect(onRetry).toHaveBeenNthCalledWith(1, { error, attempt: 1, delayMs: 1000, elapsedMs: 0 });
+      expect(onRetry).toHaveBeenNthCalledWith(2, { error, attempt: 2, delayMs: 2000, elapsedMs: 1000 });
+    });
+
+    it('should stop retrying once maxElapsedMs would be exceeded', async () => {
+      const fn = vi.fn().mockRejectedValue(new ServerError());
+
+      const resultPromise = withRetry(fn, { maxRetries: 10, jitterFactor: 0, maxElapsedMs: 5000 });
+      resultPromise.catch(() => {});
+      await vi.runAllTimersAsync();
+
+      // Attempts at 0ms, 1000ms and 3000ms; the next one would start at 7000ms
+      await expect(resultPromise).rejects.toThrow(ServerError);
+      expect(fn).toHaveBeenCalledTimes(3);
+    });
+
+    it('should give up when Retry-After exceeds maxRetryAfterMs', async () => {
+      const fn = vi.fn().mockRejectedValue(new RateLimitError('Rate limited', 120));
+
+      await expect(withRetry(fn, { maxRetries: 3, maxRetryAfterMs: 60000 })).rejects.toThrow(RateLimitError);
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop retrying when the shared budget is spent', async () => {
+      const budget = new RetryBudget({ maxRetries: 1 });
+      const first = vi.fn().mockRejectedValueOnce(new ServerError()).mockResolvedValue('success');
+      const second = vi.fn().mockRejectedValue(new ServerError());
+
+      const firstPromise = withRetry(first, { maxRetries: 3, budget });
+      await vi.runAllTimersAsync();
+      await expect(firstPromise).resolves.toBe('success');
+
+      await expect(withRetry(second, { maxRetries: 3, budget })).rejects.toThrow(ServerError);
+      expect(second).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('sleep', () => {
+    it('should reject with AbortError when the signal aborts', async () => {
+      const controller = new AbortController();
+      const promise = sleep(60000, controller.signal);
+      controller.abort();
+      await expect(promise).rejects.toThrow(AbortError);
+    });
+
+    it('should reject immediately for an aborted signal', async () => {
+      await expect(sleep(60000, AbortSignal.abort())).rejects.toThrow(AbortError);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+
+    it('should parse delay seconds', () => {
+      expect(parseRetryAfter('120', now)).toBe(120);
+      expect(parseRetryAfter(' 0 ', now)).toBe(0);
+    });
+
+    it('should parse HTTP dates', () => {
+      expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:30 GMT', now)).toBe(30);
+    });
+
+    it('should clamp past dates to zero', () => {
+      expect(parseRetryAfter('Sun, 31 Dec 2023 23:59:00 GMT', now)).toBe(0);
+    });
+
+    it('should return undefined for missing or invalid values', () => {
+      expect(parseRetryAfter(null, now)).toBeUndefined();
+      expect(parseRetryAfter('', now)).toBeUndefined();
+      expect(parseRetryAfter('soon', now)).toBeUndefined();
+      expect(parseRetryAfter('-5', now)).toBeUndefined();
+    });
+  });
+
+  describe('RetryBudget', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should allow retries up to the limit within the window', () => {
+      const budget = new RetryBudget({ maxRetries: 2, windowMs: 1000 });
+
+      expect(budget.tryAcquire()).toBe(true);
+      expect(budget.tryAcquire()).toBe(true);
+      expect(budget.tryAcquire()).toBe(false);
+      expect(budget.remaining).toBe(0);
+    });
+
+    it('should release retries as they leave the window', () => {
+      const budget = new RetryBudget({ maxRetries: 1, windowMs: 1000 });
+
+      budget.tryAcquire();
+      vi.advanceTimersByTime(1000);
+
+      expect(budget.remaining).toBe(1);
+      expect(budget.tryAcquire()).toBe(true);
+    });
   });
 });
@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { AllscreenshotsClient, AuthenticationError, NetworkError } from '../../src/index.js';
+import { getEnv } from '../../src/utils/runtime.js';
+import { toBinaryData } from '../../src/utils/binary.js';
+import { PNG_BYTES, imageResponse } from '../helpers/responses.js';
+
+/**
+ * Emulate an edge worker: no Buffer and no process.env
+ *
+ * `process` itself stays in place because the test runner depends on it, and
+ * globals are restored before assertions since vitest uses Buffer internally.
+ */
+const stubWorkerRuntime = () => {
+  vi.stubGlobal('Buffer', undefined);
+  vi.stubEnv('ALLSCREENSHOTS_API_KEY', undefined);
+};
+
+describe('getEnv', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it('should read from process.env', () => {
+    vi.stubEnv('ALLSCREENSHOTS_TEST_VAR', 'node-value');
+
+    expect(getEnv('ALLSCREENSHOTS_TEST_VAR')).toBe('node-value');
+  });
+
+  it('should fall back to Deno.env', () => {
+    vi.stubGlobal('Deno', { env: { get: (name: string) => `deno:${name}` } });
+
+    expect(getEnv('ALLSCREENSHOTS_TEST_VAR')).toBe('deno:ALLSCREENSHOTS_TEST_VAR');
+  });
+
+  it('should return undefined when environment access is denied', () => {
+    vi.stubGlobal('Deno', {
+      env: {
+        get: () => {
+          throw new Error('Requires env access');
+        },
+      },
+    });
+
+    expect(getEnv('ALLSCREENSHOTS_TEST_VAR')).toBeUndefined();
+  });
+});
+
+describe('toBinaryData', () => {
+  const data = () => new Uint8Array(PNG_BYTES).buffer;
+
+  it('should convert to each binary type', async () => {
+    expect(Buffer.isBuffer(toBinaryData(data(), 'buffer'))).toBe(true);
+    expect(toBinaryData(data(), 'uint8array')).toEqual(new Uint8Array(PNG_BYTES));
+    expect(toBinaryData(data(), 'arraybuffer')).toBeInstanceOf(ArrayBuffer);
+
+    const blob = toBinaryData(data(), 'blob', 'image/png') as Blob;
+    expect(blob.type).toBe('image/png');
+    expect(new Uint8Array(await blob.arrayBuffer())).toEqual(new Uint8Array(PNG_BYTES));
+  });
+});
+
+describe('client in a worker-like runtime', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it('should require an explicit API key when no environment is available', () => {
+    stubWorkerRuntime();
+
+    expect(() => new AllscreenshotsClient()).toThrow(AuthenticationError);
+  });
+
+  it('should return a Uint8Array for screenshots without Buffer', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(imageResponse());
+    stubWorkerRuntime();
+    const client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: mockFetch });
+
+    const image = await client.screenshot({ url: 'https://example.com' });
+    vi.unstubAllGlobals();
+
+    expect(image).toBeInstanceOf(Uint8Array);
+    expect(Buffer.isBuffer(image)).toBe(false);
+    expect(image).toEqual(new Uint8Array(PNG_BYTES));
+  });
+
+  it('should reject binaryType buffer without Buffer', () => {
+    stubWorkerRuntime();
+
+    expect(() => new AllscreenshotsClient({ apiKey: 'test-key', binaryType: 'buffer' })).toThrow(TypeError);
+    expect(new AllscreenshotsClient({ apiKey: 'test-key', binaryType: 'uint8array' })).toBeInstanceOf(AllscreenshotsClient);
+  });
+
+  it('should use the global fetch when none is configured', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(imageResponse());
+    stubWorkerRuntime();
+    vi.stubGlobal('fetch', mockFetch);
+    const client = new AllscreenshotsClient({ apiKey: 'test-key' });
+
+    await client.getJobResult('job-1');
+    vi.unstubAllGlobals();
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should map browser-style fetch failures to NetworkError', async () => {
+    const mockFetch = vi.fn().mockRejectedValue(new TypeError('Load failed'));
+    const client = new AllscreenshotsClient({ apiKey: 'test-key', autoRetry: false, fetch: mockFetch });
+
+    await expect(client.getJob('job-1')).rejects.toThrow(NetworkError);
+  });
+});
+
+describe('binaryType option', () => {
+  it('should return a Blob with the response content type', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(imageResponse());
+    const client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: mockFetch, binaryType: 'blob' });
+
+    const image: Blob = await client.screenshot({ url: 'https://example.com' });
+
+    expect(image.type).toBe('image/png');
+    expect(image.size).toBe(PNG_BYTES.length);
+  });
+
+  it('should be configurable through the builder', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(imageResponse());
+    const client = AllscreenshotsClient.builder()
+      .withApiKey('test-key')
+      .withFetch(mockFetch)
+      .withBinaryType('arraybuffer')
+      .build();
+
+    const image: ArrayBuffer = await client.getJobResult('job-1');
+
+    expect(image).toBeInstanceOf(ArrayBuffer);
+  });
+});
@@ -0,0 +1,242 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Readable } from 'node:stream';
+import {
+  AbortError,
+  AllscreenshotsClient,
+  NetworkError,
+  NotFoundError,
+  TimeoutError,
+  type DownloadProgress,
+} from '../../src/index.js';
+import { getJobResultToFile, screenshotToFile, toNodeReadable, writeStreamToFile } from '../../src/node/index.js';
+import { parseContentLength } from '../../src/utils/stream.js';
+import { imageResponse, jsonResponse } from '../helpers/responses.js';
+
+const chunkedStream = (chunks: number[][]) => new ReadableStream<Uint8Array>({
+  start(controller) {
+    chunks.forEach((chunk) => controller.enqueue(new Uint8Array(chunk)));
+    controller.close();
+  },
+});
+
+const failingStream = (chunk: number[]) => new ReadableStream<Uint8Array>({
+  start(controller) {
+    controller.enqueue(new Uint8Array(chunk));
+    controller.error(new Error('connection reset'));
+  },
+});
+
+const readAll = async (stream: ReadableStream<Uint8Array>) =>
+  new Uint8Array(await new Response(stream).arrayBuffer());
+
+describe('parseContentLength', () => {
+  it('should parse valid lengths only', () => {
+    expect(parseContentLength(new Headers({ 'Content-Length': '1024' }))).toBe(1024);
+    expect(parseContentLength(new Headers({ 'Content-Length': 'big' }))).toBeUndefined();
+    expect(parseContentLength(new Headers())).toBeUndefined();
+  });
+});
+
+describe('writeStreamToFile', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'allscreenshots-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should write the stream and return the byte count', async () => {
+    const path = join(dir, 'shot.png');
+
+    const bytes = await writeStreamToFile(chunkedStream([[1, 2], [3]]), path);
+
+    expect(bytes).toBe(3);
+    expect([...await readFile(path)]).toEqual([1, 2, 3]);
+    expect(await readdir(dir)).toEqual(['shot.png']);
+  });
+
+  it('should keep the existing file and remove the temp file when the stream fails', async () => {
+    const path = join(dir, 'shot.png');
+    await writeFile(path, 'previous');
+
+    await expect(writeStreamToFile(failingStream([1, 2]), path)).rejects.toThrow('connection reset');
+
+    expect(await readFile(path, 'utf8')).toBe('previous');
+    expect(await readdir(dir)).toEqual(['shot.png']);
+  });
+});
+
+describe('client streaming', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'allscreenshots-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should stream a screenshot without buffering it', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(imageResponse([[1, 2], [3, 4]]));
+    const client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: mockFetch });
+
+    const stream = await client.screenshotStream({ url: 'https://example.com' });
+
+    expect(stream).toBeInstanceOf(ReadableStream);
+    expect([...await readAll(stream)]).toEqual([1, 2, 3, 4]);
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://api.allscreenshots.com/v1/screenshots',
+      expect.objectContaining({ method: 'POST' })
+    );
+  });
+
+  it('should report progress for every chunk', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(imageResponse([[1, 2], [3]], { 'Content-Length': '3' }));
+    const client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: mockFetch });
+    const progress: DownloadProgress[] = [];
+
+    const stream = await client.getJobResultStream('job-1', { onProgress: (p) => progress.push(p) });
+    await readAll(stream);
+
+    expect(progress).toEqual([
+      { bytesReceived: 2, totalBytes: 3 },
+      { bytesReceived: 3, totalBytes: 3 },
+    ]);
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://api.allscreenshots.com/v1/screenshots/jobs/job-1/result',
+      expect.objectContaining({ method: 'GET' })
+    );
+  });
+
+  it('should expose response metadata', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(imageResponse([[1]], { 'X-Request-Id': 'req-1' }));
+    const client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: mockFetch });
+
+    const { response } = await client.screenshotStream({ url: 'https://example.com' }).withResponse();
+
+    expect(response.requestId).toBe('req-1');
+  });
+
+  it('should throw typed errors for failed responses', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(jsonResponse(404, { message: 'Job not found' }));
+    const client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: mockFetch });
+
+    await expect(client.getJobResultStream('missing')).rejects.toThrow(NotFoundError);
+  });
+
+  it('should cancel the stream when the caller aborts mid-download', async () => {
+    let cancelled = false;
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new Uint8Array([1]));
+      },
+      cancel() {
+        cancelled = true;
+      },
+    });
+    const mockFetch = vi.fn().mockImplementation((_url: string, init: RequestInit) => {
+      init.signal?.addEventListener('abort', () => body.cancel());
+      return Promise.resolve(new Response(body, { status: 200 }));
+    });
+    const client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: mockFetch });
+    const controller = new AbortController();
+
+    await client.screenshotStream({ url: 'https://example.com' }, { signal: controller.signal });
+    controller.abort();
+
+    expect(cancelled).toBe(true);
+  });
+
+  it('should surface body failures as network errors', async () => {
+    const cause = Object.assign(new TypeError('terminated'), { cause: { code: 'UND_ERR_SOCKET' } });
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new Uint8Array([1]));
+        controller.error(cause);
+      },
+    });
+    const client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: vi.fn().mockResolvedValue(new Response(body)) });
+
+    const stream = await client.screenshotStream({ url: 'https://example.com' }, { onProgress: vi.fn() });
+    const error = await readAll(stream).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error).toMatchObject({ kind: 'body_interrupted', cause });
+  });
+
+  it('should reject reads with an AbortError when the caller aborts', async () => {
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new Uint8Array([1]));
+      },
+    });
+    const client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: vi.fn().mockResolvedValue(new Response(body)) });
+    const controller = new AbortController();
+
+    const stream = await client.getJobResultStream('job-1', { signal: controller.signal });
+    const reading = readAll(stream);
+    controller.abort();
+
+    await expect(reading).rejects.toThrow(AbortError);
+  });
+
+  it('should time out a stalled body', async () => {
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new Uint8Array([1]));
+      },
+    });
+    const client = new AllscreenshotsClient({
+      apiKey: 'test-key',
+      timeout: 20,
+      fetch: vi.fn().mockResolvedValue(new Response(body)),
+    });
+
+    const stream = await client.screenshotStream({ url: 'https://example.com' });
+
+    await expect(readAll(stream)).rejects.toThrow(TimeoutError);
+  });
+
+  it('should write screenshots to a file', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(imageResponse([[1, 2], [3]]));
+    const client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: mockFetch });
+    const path = join(dir, 'shot.png');
+    const onProgress = vi.fn();
+
+    const bytes = await screenshotToFile(client, { url: 'https://example.com' }, path, { onProgress });
+
+    expect(bytes).toBe(3);
+    expect([...await readFile(path)]).toEqual([1, 2, 3]);
+    expect(onProgress).toHaveBeenLastCalledWith({ bytesReceived: 3, totalBytes: undefined });
+  });
+
+  it('should write job results to a file', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(imageResponse([[9]]));
+    const client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: mockFetch });
+    const path = join(dir, 'result.png');
+
+    await getJobResultToFile(client, 'job-1', path);
+
+    expect([...await readFile(path)]).toEqual([9]);
+  });
+});
+
+describe('toNodeReadable', () => {
+  it('should convert a web stream into a Node.js Readable', async () => {
+    const readable = toNodeReadable(chunkedStream([[1, 2], [3]]));
+
+    expect(readable).toBeInstanceOf(Readable);
+    const chunks: Buffer[] = [];
+    for await (const chunk of readable) {
+      chunks.push(chunk as Buffer);
+    }
+    expect([...Buffer.concat(chunks)]).toEqual([1, 2, 3]);
+  });
+});
@@ -0,0 +1,254 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  AllscreenshotsClient,
+  ResponseValidationError,
+  ValidationError,
+  validateBulkRequest,
+  validateBulkStatusResponse,
+  validateComposeJobStatusResponse,
+  validateComposeRequest,
+  validateCreateScheduleRequest,
+  validateJobResponse,
+  validateListOf,
+  validateScreenshotRequest,
+  validateUpdateScheduleRequest,
+  type ComposeJobStatusResponse,
+} from '../../src/index.js';
+import { MockServer } from '../../src/testing/index.js';
+import { jsonResponse } from '../helpers/responses.js';
+
+const job = {
+  id: 'job-1',
+  status: 'COMPLETED',
+  url: 'https://example.com',
+  createdAt: '2025-01-01T00:00:00Z',
+};
+
+describe('response validators', () => {
+  it('should accept valid responses, null optional fields and unknown fields', () => {
+    expect(validateJobResponse(job)).toEqual([]);
+    expect(validateJobResponse({ ...job, completedAt: null, newField: 1 })).toEqual([]);
+  });
+
+  it('should report the path of every offending field', () => {
+    expect(validateBulkStatusResponse({
+      id: 'bulk-1',
+      status: 'PROCESSING',
+      totalJobs: 1,
+      completedJobs: 0,
+      failedJobs: 0,
+      progress: 0,
+      createdAt: '2025-01-01T00:00:00Z',
+    })).toEqual([{ path: 'jobs', message: 'expected array, got undefined' }]);
+
+    expect(validateComposeJobStatusResponse({
+      id: 'compose-1',
+      status: 'QUEUED',
+      progress: 0,
+      totalCaptures: 2,
+      completedCaptures: '0',
+      createdAt: '2025-01-01T00:00:00Z',
+    })).toEqual([
+      { path: 'jobId', message: 'expected string, got undefined' },
+      { path: 'completedCaptures', message: 'expected number, got string' },
+    ]);
+  });
+
+  it('should check enums and nested lists', () => {
+    const validateJobs = validateListOf(validateJobResponse);
+
+    expect(validateJobs([job, { ...job, status: 'DONE' }])).toEqual([
+      { path: '[1].status', message: "expected one of 'QUEUED', 'PROCESSING', 'COMPLETED', 'FAILED', 'CANCELLED', got 'DONE'" },
+    ]);
+    expect(validateJobs({ jobs: [] })).toEqual([{ path: '', message: 'expected array, got object' }]);
+  });
+});
+
+describe('client response validation', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should not check responses by default', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(jsonResponse(200, { id: 'job-1' }));
+    const client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: mockFetch });
+
+    await expect(client.getJob('job-1')).resolves.toEqual({ id: 'job-1' });
+  });
+
+  it('should throw ResponseValidationError in strict mode without retrying', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(jsonResponse(200, { ...job, status: 42 }));
+    const client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: mockFetch, responseValidation: 'strict' });
+
+    const error = await client.getJob('job-1').catch((e: unknown) => e) as ResponseValidationError;
+
+    expect(error).toBeInstanceOf(ResponseValidationError);
+    expect(error.path).toBe('status');
+    expect(error.errorCode).toBe('RESPONSE_VALIDATION_ERROR');
+    expect(error.message).toContain('Unexpected response from GET /v1/screenshots/jobs/job-1: status: expected one of');
+    expect(error.response?.status).toBe(200);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should log and return the response in warn mode', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const mockFetch = vi.fn().mockResolvedValue(jsonResponse(200, { ...job, url: undefined }));
+    const client = AllscreenshotsClient.builder()
+      .withApiKey('test-key')
+      .withFetch(mockFetch)
+      .withResponseValidation('warn')
+      .build();
+
+    await expect(client.getJob('job-1')).resolves.toMatchObject({ id: 'job-1' });
+    expect(warn).toHaveBeenCalledWith(
+      '[allscreenshots] Unexpected response from GET /v1/screenshots/jobs/job-1: url: expected string, got undefined'
+    );
+  });
+
+  it('should validate async compose jobs against the job status model', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(jsonResponse(200, { url: 'https://cdn.example.com/a.png' }));
+    const client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: mockFetch, responseValidation: 'strict' });
+
+    await expect(client.compose({ url: 'https://example.com', variants: [{}], async: true }))
+      .rejects.toMatchObject({ path: 'jobId' });
+  });
+
+  it('should accept every response of the mock server in strict mode', async () => {
+    const server = new MockServer();
+    const client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: server.fetch, responseValidation: 'strict' });
+
+    const { id } = await client.screenshotAsync({ url: 'https://example.com' });
+    await client.getJob(id);
+    await client.getJob(id);
+    await client.listJobs();
+    await client.cancelJob(id);
+
+    const bulk = await client.createBulkJob({ urls: [{ url: 'https://example.com' }] });
+    await client.getBulkJob(bulk.id);
+    await client.listBulkJobs();
+    await client.cancelBulkJob(bulk.id);
+
+    await client.compose({ captures: [{ url: 'https://example.com' }] });
+    const compose = await client.compose({ captures: [{ url: 'https://example.com' }], async: true }) as ComposeJobStatusResponse;
+    await client.getComposeJob(compose.jobId);
+    await client.getComposeJob(compose.jobId);
+    await client.listComposeJobs();
+    await client.previewLayout({ layout: 'GRID', imageCount: 3 });
+
+    const schedule = await client.createSchedule({ name: 'Home', url: 'https://example.com', schedule: '0 9 * * *' });
+    await client.pauseSchedule(schedule.id);
+    await client.resumeSchedule(schedule.id);
+    await client.updateSchedule(schedule.id, { name: 'Homepage' });
+    await client.triggerSchedule(schedule.id);
+    await client.getScheduleHistory(schedule.id);
+    await client.listSchedules();
+    await client.getSchedule(schedule.id);
+
+    await client.getUsage();
+    await expect(client.getQuotaStatus()).resolves.toBeDefined();
+  });
+});
+
+describe('request validators', () => {
+  it('should accept valid requests', () => {
+    expect(validateScreenshotRequest({
+      url: 'https://example.com',
+      viewport: { width: 1920, height: 1080, deviceScaleFactor: 2 },
+      quality: 80,
+      delay: 0,
+      timeout: 60000,
+    })).toEqual([]);
+    expect(validateComposeRequest({ url: 'https://example.com', variants: [{ device: 'iPhone 14' }] })).toEqual([]);
+    expect(validateUpdateScheduleRequest({ retentionDays: 365 })).toEqual([]);
+  });
+
+  it('should check URLs and documented ranges', () => {
+    expect(validateScreenshotRequest({
+      url: 'ftp://example.com',
+      viewport: { width: 50, deviceScaleFactor: 4 },
+      quality: 101,
+      delay: 30001,
+      timeout: 999,
+    })).toEqual([
+      { path: 'url', message: 'must start with http:// or https://' },
+      { path: 'viewport.width', message: 'must be an integer between 100 and 4096' },
+      { path: 'viewport.deviceScaleFactor', message: 'must be between 1 and 3' },
+      { path: 'quality', message: 'must be an integer between 1 and 100' },
+      { path: 'delay', message: 'must be an integer between 0 and 30000' },
+      { path: 'timeout', message: 'must be an integer between 1000 and 60000' },
+    ]);
+  });
+
+  it('should limit bulk requests to 100 URLs and check each of them', () => {
+    const urls = Array.from({ length: 101 }, () => ({ url: 'https://example.com' }));
+    urls[3] = { url: '' };
+
+    expect(validateBulkRequest({ urls, defaults: { quality: 0 } })).toEqual([
+      { path: 'urls', message: 'must contain at most 100 items' },
+      { path: 'urls[3].url', message: 'must not be empty' },
+      { path: 'defaults.quality', message: 'must be an integer between 1 and 100' },
+    ]);
+    expect(validateBulkRequest({ urls: [] })).toEqual([{ path: 'urls', message: 'must contain at least 1 item' }]);
+  });
+
+  it('should limit compose requests to 20 captures and require a source', () => {
+    const captures = Array.from({ length: 21 }, () => ({ url: 'https://example.com' }));
+
+    expect(validateComposeRequest({ captures })).toEqual([{ path: 'captures', message: 'must contain at most 20 items' }]);
+    expect(validateComposeRequest({})).toEqual([{ path: 'captures', message: 'provide captures, or a url with variants' }]);
+    expect(validateComposeRequest({ variants: [{}] })).toEqual([{ path: 'url', message: 'is required' }]);
+  });
+
+  it('should check schedule names and retention', () => {
+    expect(validateCreateScheduleRequest({
+      name: 'x'.repeat(256),
+      url: 'https://example.com',
+      schedule: '0 9 * * *',
+      retentionDays: 0,
+    })).toEqual([
+      { path: 'name', message: 'must be at most 255 characters' },
+      { path: 'retentionDays', message: 'must be an integer between 1 and 365' },
+    ]);
+  });
+});
+
+describe('client request validation', () => {
+  it('should not check requests by default', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(jsonResponse(200, { message: 'Validation failed' }));
+    const client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: mockFetch });
+
+    await client.screenshotAsync({ url: 'example.com' });
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should throw ValidationError before sending invalid requests', async () => {
+    const mockFetch = vi.fn();
+    const client = AllscreenshotsClient.builder()
+      .withApiKey('test-key')
+      .withFetch(mockFetch)
+      .withRequestValidation()
+      .build();
+
+    const error = await client.screenshot({ url: 'example.com', quality: 0 }).catch((e: unknown) => e) as ValidationError;
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.message).toBe(
+      'Invalid request: url: must start with http:// or https://; quality: must be an integer between 1 and 100'
+    );
+    expect(error.validationErrors).toEqual({
+      url: 'must start with http:// or https://',
+      quality: 'must be an integer between 1 and 100',
+    });
+    await expect(client.createSchedule({ name: '', url: 'https://example.com', schedule: '0 9 * * *' }))
+      .rejects.toMatchObject({ validationErrors: { name: 'must not be empty' } });
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should send valid requests', async () => {
+    const server = new MockServer();
+    const client = new AllscreenshotsClient({ apiKey: 'test-key', fetch: server.fetch, validateRequests: true });
+
+    await expect(client.createBulkJob({ urls: [{ url: 'https://example.com' }] })).resolves.toMatchObject({ totalJobs: 1 });
+  });
+});
@@ -1,12 +1,19 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-  entry: ['src/index.ts'],
+  entry: {
+    index: 'src/index.ts',
+    testing: 'src/testing/index.ts',
+    node: 'src/node/index.ts',
+  },
   format: ['cjs', 'esm'],
   dts: true,
-  splitting: false,
+  // Shared chunks keep one copy of the SDK classes across the index and testing entries
+  splitting: true,
   sourcemap: true,
   clean: true,
   minify: false,
   treeshake: true,
+  // Keep `node:` specifiers so bundlers for browsers, edge and workers recognize them as built-ins
+  removeNodeProtocol: false,
 });